@@ -95,3 +95,107 @@ export enum GardenaDeviceRfLinkState {
   Offline = 'OFFLINE',
   Unknown = 'UNKNOWN'
 }
+
+export enum GardenaValveState {
+  Ok = 'OK',
+  Warning = 'WARNING',
+  Error = 'ERROR',
+  Unavailable = 'UNAVAILABLE'
+}
+
+export enum GardenaValveActivity {
+  Closed = 'CLOSED',
+  ManualWatering = 'MANUAL_WATERING',
+  ScheduledWatering = 'SCHEDULED_WATERING'
+}
+
+export enum GardenaValveErrorCode {
+  NoMessage = 'NO_MESSAGE',
+  ConcurrentLimitReached = 'CONCURRENT_LIMIT_REACHED',
+  NotConnected = 'NOT_CONNECTED',
+  ValveCurrentMaxExceeded = 'VALVE_CURRENT_MAX_EXCEEDED',
+  TotalCurrentMaxExceeded = 'TOTAL_CURRENT_MAX_EXCEEDED',
+  WateringCanceled = 'WATERING_CANCELED',
+  MasterValve = 'MASTER_VALVE',
+  WateringDurationTooShort = 'WATERING_DURATION_TOO_SHORT',
+  ValveBroken = 'VALVE_BROKEN',
+  FrostPreventsStarting = 'FROST_PREVENTS_STARTING',
+  LowBatteryPreventsStarting = 'LOW_BATTERY_PREVENTS_STARTING',
+  ValvePowerSupplyFailed = 'VALVE_POWER_SUPPLY_FAILED'
+}
+
+export enum GardenaValveSetState {
+  Ok = 'OK',
+  Warning = 'WARNING',
+  Error = 'ERROR',
+  Unavailable = 'UNAVAILABLE'
+}
+
+export enum GardenaValveSetErrorCode {
+  NoMessage = 'NO_MESSAGE',
+  VoltageDrop = 'VOLTAGE_DROP',
+  WrongPowerSupply = 'WRONG_POWER_SUPPLY',
+  NoMcuConnection = 'NO_MCU_CONNECTION',
+  Unknown = 'UNKNOWN'
+}
+
+export enum GardenaPowerSocketState {
+  Ok = 'OK',
+  Warning = 'WARNING',
+  Error = 'ERROR',
+  Unavailable = 'UNAVAILABLE'
+}
+
+export enum GardenaPowerSocketActivity {
+  Off = 'OFF',
+  ForeverOn = 'FOREVER_ON',
+  TimeLimitedOn = 'TIME_LIMITED_ON',
+  ScheduledOn = 'SCHEDULED_ON'
+}
+
+export enum GardenaPowerSocketErrorCode {
+  NoMessage = 'NO_MESSAGE',
+  TimerCancelled = 'TIMER_CANCELLED',
+  Unknown = 'UNKNOWN'
+}
+
+export enum GardenaSensorUnit {
+  Percent = '%',
+  Celsius = '°C',
+  Lux = 'lx'
+}
+
+export enum GardenaPumpState {
+  Ok = 'OK',
+  Warning = 'WARNING',
+  Error = 'ERROR',
+  Unavailable = 'UNAVAILABLE'
+}
+
+export enum GardenaPumpMode {
+  Automatic = 'AUTOMATIC',
+  Scheduled = 'SCHEDULED',
+  Manual = 'MANUAL',
+  Off = 'OFF'
+}
+
+export enum GardenaPumpErrorCode {
+  NoMessage = 'NO_MESSAGE',
+  DryRun = 'DRY_RUN',
+  Leakage = 'LEAKAGE',
+  MaxPumpOnCyclesExceeded = 'MAX_PUMP_ON_CYCLES_EXCEEDED',
+  PressureSensorFailure = 'PRESSURE_SENSOR_FAILURE',
+  FlowSensorFailure = 'FLOW_SENSOR_FAILURE',
+  HighTemperature = 'HIGH_TEMPERATURE',
+  LowVoltage = 'LOW_VOLTAGE',
+  Frost = 'FROST',
+  Unknown = 'UNKNOWN'
+}
+
+export enum GardenaRealtimeState {
+  Connecting = 'CONNECTING',
+  Open = 'OPEN',
+  Reconnecting = 'RECONNECTING',
+  Closed = 'CLOSED',
+  Failed = 'FAILED'
+}
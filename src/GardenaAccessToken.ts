@@ -1,7 +1,8 @@
-import fetch from 'node-fetch';
 import Moment from 'moment';
 import { URLSearchParams } from 'url';
 import { GardenaAuthError, GardenaWrongCredentialsError } from './GardenaAuth.js';
+import { GardenaTransport } from './GardenaTransport.js';
+import { AUTH_BASE } from './config.js';
 
 export type GardenaRawAccessTokenJson = {
   access_token: string;
@@ -10,17 +11,24 @@ export type GardenaRawAccessTokenJson = {
   expires_in: number;
 };
 
+export type GardenaSerializedAccessToken = {
+  accessToken: string;
+  userId: string;
+  scope: string;
+  expiresAt: string; // ISO 8601
+};
+
 export class GardenaAccessToken {
   public readonly expiresAt: Moment.Moment;
   public readonly accessToken: string;
   public readonly userId: string;
   public readonly scope: string;
 
-  private constructor(json: GardenaRawAccessTokenJson) {
-    this.accessToken = json.access_token;
-    this.expiresAt = Moment.unix(Moment().unix() + json.expires_in);
-    this.scope = json.scope;
-    this.userId = json.user_id;
+  private constructor(accessToken: string, userId: string, scope: string, expiresAt: Moment.Moment) {
+    this.accessToken = accessToken;
+    this.expiresAt = expiresAt;
+    this.scope = scope;
+    this.userId = userId;
   }
 
   public isExpired(): boolean {
@@ -28,7 +36,30 @@ export class GardenaAccessToken {
     return this.expiresAt.isBefore(now.add(60, 'seconds'));
   }
 
-  public static async retrieveNew(clientId: string, clientSecret: string): Promise<GardenaAccessToken> {
+  public toJSON(): GardenaSerializedAccessToken {
+    return {
+      accessToken: this.accessToken,
+      userId: this.userId,
+      scope: this.scope,
+      expiresAt: this.expiresAt.toISOString()
+    };
+  }
+
+  public static fromJSON(json: GardenaSerializedAccessToken): GardenaAccessToken {
+    const expiresAt = Moment(json.expiresAt);
+    if (!json.accessToken || !expiresAt.isValid()) {
+      throw new GardenaAuthError('Serialized OAuth token is invalid');
+    }
+
+    return new GardenaAccessToken(json.accessToken, json.userId, json.scope, expiresAt);
+  }
+
+  public static async retrieveNew(
+    clientId: string,
+    clientSecret: string,
+    authBaseUrl = AUTH_BASE,
+    transport = new GardenaTransport()
+  ): Promise<GardenaAccessToken> {
     let json: GardenaRawAccessTokenJson;
     try {
       // Build body
@@ -38,7 +69,7 @@ export class GardenaAccessToken {
       params.set('client_secret', clientSecret);
 
       // Request
-      const res = await fetch('https://api.authentication.husqvarnagroup.dev/v1/oauth2/token', {
+      const res = await transport.fetch(`${authBaseUrl}/oauth2/token`, {
         method: 'POST',
         body: params
       });
@@ -80,7 +111,26 @@ export class GardenaAccessToken {
     }
 
     // Create access token
-    return new GardenaAccessToken(json);
+    return new GardenaAccessToken(json.access_token, json.user_id, json.scope, Moment.unix(Moment().unix() + json.expires_in));
+  }
+
+  public async revoke(clientId: string, authBaseUrl = AUTH_BASE, transport = new GardenaTransport()): Promise<void> {
+    try {
+      const res = await transport.fetch(`${authBaseUrl}/token/${encodeURIComponent(this.accessToken)}`, {
+        method: 'DELETE',
+        headers: {
+          'X-Api-Key': clientId,
+          'Authorization-Provider': 'husqvarna'
+        }
+      });
+
+      // An unknown token is already revoked
+      if (!res.ok && res.status != 404) {
+        throw new GardenaAuthError(`Unexpected status ${res.status} when revoking OAuth token`);
+      }
+    } catch (e) {
+      throw new GardenaAuthError('Could not revoke OAuth token', { cause: e });
+    }
   }
 
   public toString(): string {
@@ -0,0 +1,182 @@
+// Request that failed, without its headers as those hold the credentials
+export type GardenaApiRequestInfo = {
+  method: string;
+  url: string;
+  requestId?: string; // Id the API assigned to the request, when it returned one
+};
+
+// Error object of a JSON:API error response
+export type GardenaJsonApiError = {
+  id?: string;
+  status?: string;
+  code?: string;
+  title?: string;
+  detail?: string;
+  source?: { pointer?: string; parameter?: string };
+};
+
+export type GardenaApiErrorDetails = {
+  status?: number;
+  request?: GardenaApiRequestInfo;
+  errors?: GardenaJsonApiError[];
+  body?: string;
+  retryable?: boolean;
+  cause?: unknown;
+};
+
+export class GardenaApiError extends Error {
+  public readonly status?: number; // HTTP status, when a response was received
+  public readonly request?: GardenaApiRequestInfo;
+  public readonly errors: GardenaJsonApiError[];
+  public readonly body?: string;
+  public readonly retryable: boolean; // Whether sending the same request again later may succeed
+
+  public constructor(message: string, details: GardenaApiErrorDetails = {}) {
+    super(message, details.cause === undefined ? undefined : { cause: details.cause });
+    this.status = details.status;
+    this.request = details.request;
+    this.errors = details.errors ?? [];
+    this.body = details.body;
+    this.retryable = details.retryable ?? false;
+  }
+}
+
+// Credentials or access token rejected (401)
+export class GardenaAuthenticationError extends GardenaApiError {}
+
+// Not allowed to access the resource (403)
+export class GardenaForbiddenError extends GardenaApiError {}
+
+// Location, device or service doesn't exist (404)
+export class GardenaNotFoundError extends GardenaApiError {}
+
+// Too many requests (429), or the configured quota is depleted
+export class GardenaRateLimitError extends GardenaApiError {
+  public readonly retryAfter?: number; // Milliseconds, when the API told how long to back off
+
+  public constructor(message: string, details: GardenaApiErrorDetails & { retryAfter?: number } = {}) {
+    super(message, { retryable: true, ...details });
+    this.retryAfter = details.retryAfter;
+  }
+}
+
+// Command refused by the API, e.g. because it isn't valid in the current state of the device
+export class GardenaCommandRejectedError extends GardenaApiError {}
+
+export class GardenaDeviceOfflineError extends GardenaCommandRejectedError {
+  public constructor(message: string, details: GardenaApiErrorDetails = {}) {
+    super(message, { retryable: true, ...details });
+  }
+}
+
+// Failure on the side of the API (5xx)
+export class GardenaServerError extends GardenaApiError {
+  public constructor(message: string, details: GardenaApiErrorDetails = {}) {
+    super(message, { retryable: true, ...details });
+  }
+}
+
+// No response received
+export class GardenaNetworkError extends GardenaApiError {
+  public constructor(message: string, details: GardenaApiErrorDetails = {}) {
+    super(message, { retryable: true, ...details });
+  }
+}
+
+export class GardenaTimeoutError extends GardenaNetworkError {}
+
+// Response of the API that can't be used, e.g. because the API changed
+export class GardenaMalformedResponseError extends GardenaApiError {}
+
+export class GardenaInvalidJsonError extends GardenaMalformedResponseError {
+  public constructor(body: string, options?: ErrorOptions) {
+    super(`Response is not valid JSON: ${truncate(body)}`, { body, cause: options?.cause });
+  }
+}
+
+export class GardenaInvalidFieldError extends GardenaMalformedResponseError {
+  public readonly field: string; // Path of the field, e.g. 'included[2].attributes.batteryLevel.timestamp'
+  public readonly expected: string;
+  public readonly value: unknown;
+
+  public constructor(field: string, expected: string, value: unknown) {
+    super(`Malformed response, expected ${expected} at '${field || '(root)'}' but got ${describeValue(value)}`);
+    this.field = field;
+    this.expected = expected;
+    this.value = value;
+  }
+}
+
+// Error for a response with an unexpected status, typed by the status and the error objects it holds
+export function createResponseError(
+  status: number,
+  request: GardenaApiRequestInfo,
+  body: string,
+  errors: GardenaJsonApiError[],
+  retryAfter?: number
+): GardenaApiError {
+  const details = { status, request, body, errors };
+  const reason = errors
+    .map((x) => {
+      return x.detail ?? x.title ?? x.code;
+    })
+    .filter((x) => {
+      return x;
+    })
+    .join(', ');
+  const message = `Unexpected status ${status} on ${request.method} on ${request.url} on the Gardena API${reason ? `: ${reason}` : ''}`;
+
+  if (status == 401) {
+    return new GardenaAuthenticationError(message, details);
+  }
+  if (status == 403) {
+    return new GardenaForbiddenError(message, details);
+  }
+  if (status == 404) {
+    return new GardenaNotFoundError(message, details);
+  }
+  if (status == 429) {
+    return new GardenaRateLimitError(message, { ...details, retryAfter });
+  }
+  if (status >= 500) {
+    return new GardenaServerError(message, details);
+  }
+  if (/\/command\//.test(request.url) && [400, 409, 422].includes(status)) {
+    const offline = errors.some((x) => {
+      return /offline|not connected|unreachable|not reachable/i.test(`${x.code} ${x.title} ${x.detail}`);
+    });
+    return offline ? new GardenaDeviceOfflineError(message, details) : new GardenaCommandRejectedError(message, details);
+  }
+
+  return new GardenaApiError(message, details);
+}
+
+// Error for a request that didn't get a response
+export function createNetworkError(error: unknown, request: GardenaApiRequestInfo): GardenaNetworkError {
+  if ((error as Error)?.name == 'AbortError') {
+    return new GardenaTimeoutError(`Timeout on ${request.method} on ${request.url} on the Gardena API`, { request, cause: error });
+  }
+  return new GardenaNetworkError(`No response from ${request.method} on ${request.url} on the Gardena API`, { request, cause: error });
+}
+
+// API errors are kept as they are, so callers can still branch on their type; anything else is wrapped
+export function toApiError(error: unknown, message: string): GardenaApiError {
+  return error instanceof GardenaApiError ? error : new GardenaApiError(message, { cause: error });
+}
+
+function truncate(text: string): string {
+  return text.length > 200 ? `${text.slice(0, 200)}...` : text;
+}
+
+function describeValue(value: unknown): string {
+  if (value === undefined || value === null) {
+    return String(value);
+  }
+  if (Array.isArray(value)) {
+    return 'an array';
+  }
+  if (typeof value === 'object') {
+    return 'an object';
+  }
+  return `${typeof value} ${JSON.stringify(value)}`;
+}
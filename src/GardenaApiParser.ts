@@ -0,0 +1,348 @@
+import Moment from 'moment';
+import crypto from 'crypto';
+import { GardenaInvalidFieldError, GardenaInvalidJsonError, GardenaJsonApiError } from './GardenaApiError.js';
+import type { GardenaDeviceService, GardenaRawDeviceAttributeJson } from './GardenaDevice.js';
+import {
+  GardenaDeviceBatteryState,
+  GardenaDeviceRfLinkState,
+  GardenaMowerActivity,
+  GardenaMowerErrorCode,
+  GardenaMowerState,
+  GardenaPowerSocketActivity,
+  GardenaPowerSocketErrorCode,
+  GardenaPowerSocketState,
+  GardenaPumpErrorCode,
+  GardenaPumpMode,
+  GardenaPumpState,
+  GardenaValveActivity,
+  GardenaValveErrorCode,
+  GardenaValveSetErrorCode,
+  GardenaValveSetState,
+  GardenaValveState
+} from './Enums.js';
+
+export type GardenaRawResourceIdentifier = {
+  id: string;
+  type: string;
+};
+
+export type GardenaRawAttribute<T = unknown> = {
+  value: T;
+  timestamp?: string; // ISO 8601
+};
+
+export type GardenaRawLocationResource = GardenaRawResourceIdentifier & {
+  attributes: { name: string };
+  relationships?: { devices?: { data: GardenaRawResourceIdentifier[] } };
+};
+
+export type GardenaRawDeviceResource = GardenaRawResourceIdentifier & {
+  relationships: {
+    services: { data: GardenaRawResourceIdentifier[] };
+    location?: { data: GardenaRawResourceIdentifier };
+  };
+};
+
+// A service of a device (e.g. COMMON or MOWER), holding its attributes
+export type GardenaRawServiceResource = GardenaRawResourceIdentifier & {
+  attributes: { [name: string]: GardenaRawAttribute };
+  relationships?: { device?: { data: GardenaRawResourceIdentifier } };
+};
+
+export type GardenaRawLocationsResponse = {
+  data: GardenaRawLocationResource[];
+};
+
+export type GardenaRawLocationResponse = {
+  data: GardenaRawLocationResource & { relationships: { devices: { data: GardenaRawResourceIdentifier[] } } };
+  included: (GardenaRawDeviceResource | GardenaRawServiceResource)[];
+};
+
+export type GardenaRawWebSocketResponse = {
+  data: GardenaRawResourceIdentifier & { attributes: { url: string; validity?: number } };
+};
+
+// Realtime messages announce a changed location, device or service
+export type GardenaRawRealtimeMessage = GardenaRawLocationResource | GardenaRawDeviceResource | GardenaRawServiceResource;
+
+export type GardenaRawCommandRequest = {
+  data: GardenaRawResourceIdentifier & { attributes: { command: string; [attribute: string]: unknown } };
+};
+
+export type GardenaParsedDevice = {
+  id: string;
+  services: GardenaDeviceService[];
+};
+
+// Enum attribute value the library doesn't know (yet), which is kept as is
+export type GardenaUnknownValue = {
+  serviceId: string;
+  serviceType: string;
+  field: string;
+  value: string;
+};
+
+// Enum attributes per service type
+const ENUM_ATTRIBUTES: { [serviceType: string]: { [field: string]: object } } = {
+  COMMON: { batteryState: GardenaDeviceBatteryState, rfLinkState: GardenaDeviceRfLinkState },
+  MOWER: { activity: GardenaMowerActivity, state: GardenaMowerState, lastErrorCode: GardenaMowerErrorCode },
+  VALVE: { activity: GardenaValveActivity, state: GardenaValveState, lastErrorCode: GardenaValveErrorCode },
+  VALVE_SET: { state: GardenaValveSetState, lastErrorCode: GardenaValveSetErrorCode },
+  POWER_SOCKET: { activity: GardenaPowerSocketActivity, state: GardenaPowerSocketState, lastErrorCode: GardenaPowerSocketErrorCode },
+  PUMP: { state: GardenaPumpState, operatingMode: GardenaPumpMode, lastErrorCode: GardenaPumpErrorCode }
+};
+
+export function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    throw new GardenaInvalidJsonError(text, { cause: e });
+  }
+}
+
+// Error objects of an error response; as this is only used to describe a failure, a body without them is no error itself
+export function parseErrorResponse(text: string): GardenaJsonApiError[] {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (e) {
+    return [];
+  }
+
+  const errors = isObject(json) ? json.errors : undefined;
+  if (!Array.isArray(errors)) {
+    return [];
+  }
+  return errors.filter(isObject).map((x): GardenaJsonApiError => {
+    return {
+      id: optionalString(x.id),
+      status: optionalString(x.status),
+      code: optionalString(x.code),
+      title: optionalString(x.title),
+      detail: optionalString(x.detail),
+      source: isObject(x.source) ? { pointer: optionalString(x.source.pointer), parameter: optionalString(x.source.parameter) } : undefined
+    };
+  });
+}
+
+// GET /locations
+export function parseLocationsResponse(json: unknown): GardenaRawLocationsResponse {
+  const response = expectObject(json, '');
+  return {
+    data: expectArray(response.data, 'data').map((x, i) => {
+      return parseLocationResource(x, `data[${i}]`);
+    })
+  };
+}
+
+// GET /locations/:id, the snapshot of all devices & services
+export function parseLocationResponse(json: unknown): GardenaRawLocationResponse {
+  const response = expectObject(json, '');
+  const data = parseLocationResource(response.data, 'data');
+  const devices = parseIdentifiers(expectObject(data.relationships?.devices, 'data.relationships.devices').data, 'data.relationships.devices.data');
+
+  // Without devices, there may be nothing included
+  const included = devices.length || response.included !== undefined ? expectArray(response.included, 'included') : [];
+
+  return {
+    data: { ...data, relationships: { ...data.relationships, devices: { data: devices } } },
+    included: included.map((x, i) => {
+      const field = `included[${i}]`;
+      return expectObject(x, field).type == 'DEVICE' ? parseDeviceResource(x, field) : parseServiceResource(x, field);
+    })
+  };
+}
+
+// POST /websocket
+export function parseWebSocketResponse(json: unknown): GardenaRawWebSocketResponse {
+  const response = expectObject(json, '');
+  const data = expectObject(response.data, 'data');
+  const attributes = expectObject(data.attributes, 'data.attributes');
+
+  return {
+    data: {
+      ...parseIdentifier(data, 'data'),
+      attributes: {
+        url: expectString(attributes.url, 'data.attributes.url'),
+        validity: attributes.validity === undefined ? undefined : expectNumber(attributes.validity, 'data.attributes.validity')
+      }
+    }
+  };
+}
+
+export function parseRealtimeMessage(json: unknown): GardenaRawRealtimeMessage {
+  const message = expectObject(json, '');
+  switch (message.type) {
+    case 'LOCATION':
+      return parseLocationResource(message, '');
+    case 'DEVICE':
+      return parseDeviceResource(message, '');
+    default:
+      return parseServiceResource(message, '');
+  }
+}
+
+export function isServiceResource(resource: GardenaRawRealtimeMessage): resource is GardenaRawServiceResource {
+  return resource.type != 'LOCATION' && resource.type != 'DEVICE';
+}
+
+// Devices of the snapshot of a location, each with its services
+export function parseDevices(response: GardenaRawLocationResponse): GardenaParsedDevice[] {
+  return response.data.relationships.devices.data.map((device): GardenaParsedDevice => {
+    return {
+      id: device.id,
+      services: response.included
+        .filter((x): x is GardenaRawServiceResource => {
+          return isServiceResource(x) && x.relationships?.device?.data.id == device.id;
+        })
+        .map((x) => {
+          return toDeviceService(x);
+        })
+    };
+  });
+}
+
+// Maps the attributes & timestamps of a service, for both the snapshot and realtime messages
+export function toDeviceService(resource: GardenaRawServiceResource): GardenaDeviceService {
+  const attributes: GardenaRawDeviceAttributeJson[] = [];
+  for (const [name, attribute] of Object.entries(resource.attributes)) {
+    attributes[name] = { value: attribute.value };
+
+    // Add timestamp if provided
+    if (attribute.timestamp) {
+      attributes[name].ts = Moment(attribute.timestamp);
+    }
+  }
+
+  return { id: resource.id, type: resource.type, attributes };
+}
+
+export function findUnknownValues(service: GardenaDeviceService): GardenaUnknownValue[] {
+  const unknownValues: GardenaUnknownValue[] = [];
+  for (const [field, values] of Object.entries(ENUM_ATTRIBUTES[service.type] ?? {})) {
+    const value = service.attributes[field]?.value;
+    if (typeof value === 'string' && !Object.values(values).includes(value)) {
+      unknownValues.push({ serviceId: service.id, serviceType: service.type, field, value });
+    }
+  }
+
+  return unknownValues;
+}
+
+export function createCommandRequest(type: string, attributes: GardenaRawCommandRequest['data']['attributes']): GardenaRawCommandRequest {
+  return { data: { id: crypto.randomUUID(), type, attributes } };
+}
+
+function parseIdentifier(json: unknown, field: string): GardenaRawResourceIdentifier {
+  const resource = expectObject(json, field);
+  return { id: expectString(resource.id, path(field, 'id')), type: expectString(resource.type, path(field, 'type')) };
+}
+
+function parseIdentifiers(json: unknown, field: string): GardenaRawResourceIdentifier[] {
+  return expectArray(json, field).map((x, i) => {
+    return parseIdentifier(x, `${field}[${i}]`);
+  });
+}
+
+function parseLocationResource(json: unknown, field: string): GardenaRawLocationResource {
+  const resource = expectObject(json, field);
+  const attributes = expectObject(resource.attributes, path(field, 'attributes'));
+  const location: GardenaRawLocationResource = {
+    ...parseIdentifier(resource, field),
+    attributes: { name: expectString(attributes.name, path(field, 'attributes.name')) }
+  };
+
+  const relationships = resource.relationships === undefined ? {} : expectObject(resource.relationships, path(field, 'relationships'));
+  if (relationships.devices !== undefined) {
+    const devices = expectObject(relationships.devices, path(field, 'relationships.devices'));
+    location.relationships = { devices: { data: parseIdentifiers(devices.data, path(field, 'relationships.devices.data')) } };
+  }
+
+  return location;
+}
+
+function parseDeviceResource(json: unknown, field: string): GardenaRawDeviceResource {
+  const resource = expectObject(json, field);
+  const relationships = expectObject(resource.relationships, path(field, 'relationships'));
+  const services = expectObject(relationships.services, path(field, 'relationships.services'));
+  const device: GardenaRawDeviceResource = {
+    ...parseIdentifier(resource, field),
+    relationships: { services: { data: parseIdentifiers(services.data, path(field, 'relationships.services.data')) } }
+  };
+
+  if (relationships.location !== undefined) {
+    const location = expectObject(relationships.location, path(field, 'relationships.location'));
+    device.relationships.location = { data: parseIdentifier(location.data, path(field, 'relationships.location.data')) };
+  }
+
+  return device;
+}
+
+function parseServiceResource(json: unknown, field: string): GardenaRawServiceResource {
+  const resource = expectObject(json, field);
+  const identifier = parseIdentifier(resource, field);
+  const enums = ENUM_ATTRIBUTES[identifier.type] ?? {};
+
+  // Every attribute holds a value & an optional timestamp
+  const attributes: { [name: string]: GardenaRawAttribute } = {};
+  for (const [name, raw] of Object.entries(expectObject(resource.attributes ?? {}, path(field, 'attributes')))) {
+    const attributeField = path(field, `attributes.${name}`);
+    const attribute = expectObject(raw, attributeField);
+    if (enums[name] && attribute.value !== null && attribute.value !== undefined) {
+      expectString(attribute.value, `${attributeField}.value`);
+    }
+    if (attribute.timestamp !== undefined && !(typeof attribute.timestamp === 'string' && Moment(attribute.timestamp, Moment.ISO_8601).isValid())) {
+      throw new GardenaInvalidFieldError(`${attributeField}.timestamp`, 'an ISO 8601 date', attribute.timestamp);
+    }
+    attributes[name] = attribute as GardenaRawAttribute;
+  }
+
+  const service: GardenaRawServiceResource = { ...identifier, attributes };
+  const relationships = resource.relationships === undefined ? {} : expectObject(resource.relationships, path(field, 'relationships'));
+  if (relationships.device !== undefined) {
+    const device = expectObject(relationships.device, path(field, 'relationships.device'));
+    service.relationships = { device: { data: parseIdentifier(device.data, path(field, 'relationships.device.data')) } };
+  }
+
+  return service;
+}
+
+function path(field: string, name: string): string {
+  return field ? `${field}.${name}` : name;
+}
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === 'object' && value !== null;
+}
+
+function expectObject(value: unknown, field: string): { [key: string]: unknown } {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new GardenaInvalidFieldError(field, 'an object', value);
+  }
+  return value as { [key: string]: unknown };
+}
+
+function expectArray(value: unknown, field: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new GardenaInvalidFieldError(field, 'an array', value);
+  }
+  return value;
+}
+
+function expectString(value: unknown, field: string): string {
+  if (typeof value !== 'string') {
+    throw new GardenaInvalidFieldError(field, 'a string', value);
+  }
+  return value;
+}
+
+function expectNumber(value: unknown, field: string): number {
+  if (typeof value !== 'number' || !isFinite(value)) {
+    throw new GardenaInvalidFieldError(field, 'a number', value);
+  }
+  return value;
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' || typeof value === 'number' ? String(value) : undefined;
+}
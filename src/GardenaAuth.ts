@@ -1,29 +1,175 @@
 import { GardenaAccessToken } from './GardenaAccessToken.js';
+import { GardenaTransport } from './GardenaTransport.js';
+import { GardenaTokenStore } from './GardenaTokenStore.js';
+import { AUTH_BASE } from './config.js';
+import { GardenaMetric, GardenaMetrics } from './GardenaMetrics.js';
 
 export type GardenaAuthConfig = {
   clientId: string;
   clientSecret: string;
+  authBaseUrl?: string;
+  transport?: GardenaTransport;
+  tokenStore?: GardenaTokenStore;
+  backgroundTokenRefresh?: boolean; // Refresh the token before it expires (default true)
+  tokenRefreshMargin?: number; // Seconds before expiry to refresh the token in the background (default 300)
+  metrics?: GardenaMetrics;
 };
 
 export class GardenaWrongCredentialsError extends Error {}
 export class GardenaAuthError extends Error {}
 
+const MAX_TIMEOUT = 2147483647; // Maximum delay supported by setTimeout
+
 export class GardenaAuth {
   public readonly clientId: string;
   private clientSecret: string;
   private accessToken: GardenaAccessToken;
+  private authBaseUrl: string;
+  private transport: GardenaTransport;
+  private tokenStore: GardenaTokenStore;
+  private tokenStoreChecked = false;
+  private backgroundTokenRefresh: boolean;
+  private tokenRefreshMargin: number;
+  private pendingRefresh: Promise<GardenaAccessToken>;
+  private refreshTimeout: NodeJS.Timeout;
+  private metrics: GardenaMetrics;
 
   public constructor(config: GardenaAuthConfig) {
     this.clientId = config.clientId;
     this.clientSecret = config.clientSecret;
+    this.authBaseUrl = config.authBaseUrl ?? AUTH_BASE;
+    this.transport = config.transport ?? new GardenaTransport();
+    this.tokenStore = config.tokenStore;
+    this.backgroundTokenRefresh = config.backgroundTokenRefresh ?? true;
+    this.tokenRefreshMargin = config.tokenRefreshMargin ?? 300;
+    this.metrics = config.metrics ?? new GardenaMetrics();
   }
 
   public async getValidAccessToken(): Promise<GardenaAccessToken> {
     if (!this.accessToken || this.accessToken.isExpired()) {
       // Retieve new accessToken
-      this.accessToken = await GardenaAccessToken.retrieveNew(this.clientId, this.clientSecret);
+      return this.refresh();
     }
 
     return this.accessToken;
   }
+
+  // Concurrent callers share a single pending refresh
+  public refresh(): Promise<GardenaAccessToken> {
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.retrieve().finally(() => {
+        this.pendingRefresh = undefined;
+      });
+    }
+
+    return this.pendingRefresh;
+  }
+
+  // Drop the token (e.g. when the API rejected it), unless it was already replaced
+  public async invalidate(token?: GardenaAccessToken): Promise<void> {
+    if (token && token !== this.accessToken) {
+      return;
+    }
+
+    if (this.accessToken) {
+      this.transport.log.debug('Access token invalidated');
+    }
+    this.accessToken = undefined;
+    clearTimeout(this.refreshTimeout);
+    if (this.tokenStore) {
+      try {
+        await this.tokenStore.clear(this.clientId);
+      } catch (e) {
+        this.transport.log.warn('Failed to clear the stored access token', { error: (e as Error).message });
+      }
+    }
+  }
+
+  public async revoke(): Promise<void> {
+    const token = this.accessToken;
+    await this.invalidate();
+
+    if (token) {
+      await token.revoke(this.clientId, this.authBaseUrl, this.transport);
+    }
+  }
+
+  public stop(): void {
+    clearTimeout(this.refreshTimeout);
+  }
+
+  // Tokens are kept for a next run
+  public get persistsTokens(): boolean {
+    return !!this.tokenStore;
+  }
+
+  private async retrieve(): Promise<GardenaAccessToken> {
+    let token: GardenaAccessToken;
+
+    // Reuse a stored token from a previous run
+    if (this.tokenStore && !this.tokenStoreChecked) {
+      this.tokenStoreChecked = true;
+      try {
+        const json = await this.tokenStore.load(this.clientId);
+        if (json) {
+          const storedToken = GardenaAccessToken.fromJSON(json);
+          if (!storedToken.isExpired()) {
+            token = storedToken;
+          }
+        }
+      } catch (e) {
+        // Authenticate instead
+        this.transport.log.warn('Failed to load the stored access token', { error: (e as Error).message });
+      }
+    }
+
+    // Retrieve new token
+    if (!token) {
+      const done = this.metrics.startTimer(GardenaMetric.TokenRefresh);
+      try {
+        token = await GardenaAccessToken.retrieveNew(this.clientId, this.clientSecret, this.authBaseUrl, this.transport);
+      } catch (e) {
+        done({ outcome: 'failed' });
+        this.transport.log.warn('Failed to retrieve access token', { error: (e as Error).message });
+        throw e;
+      }
+      done({ outcome: 'succeeded' });
+      this.transport.log.info('Retrieved access token', { expiresAt: token.expiresAt.toISOString() });
+      if (this.tokenStore) {
+        try {
+          await this.tokenStore.save(this.clientId, token.toJSON());
+        } catch (e) {
+          this.transport.log.warn('Failed to store the access token', { error: (e as Error).message });
+        }
+      }
+    }
+
+    this.accessToken = token;
+    this.scheduleRefresh();
+
+    return token;
+  }
+
+  private scheduleRefresh(): void {
+    clearTimeout(this.refreshTimeout);
+    if (!this.backgroundTokenRefresh) {
+      return;
+    }
+
+    // Refresh in the background, without keeping the process alive
+    const delay = this.accessToken.expiresAt.valueOf() - Date.now() - this.tokenRefreshMargin * 1000;
+    if (delay <= 0) {
+      return;
+    }
+    this.refreshTimeout = setTimeout(
+      () => {
+        this.refresh().catch((e) => {
+          // Failing here is fine, the next request retries
+          this.transport.log.debug('Background token refresh failed', { error: (e as Error).message });
+        });
+      },
+      Math.min(delay, MAX_TIMEOUT)
+    );
+    this.refreshTimeout.unref();
+  }
 }
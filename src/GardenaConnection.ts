@@ -1,97 +1,256 @@
-import fetch from 'node-fetch';
+import EventEmitter from 'events';
 import { API_BASE } from './config.js';
 import { GardenaAuth } from './GardenaAuth.js';
-import { GardenaLocation, GardenaLocationError, GardenaRawLocationsJson } from './GardenaLocation.js';
-import { GardenaDevice } from './GardenaDevice.js';
+import { GardenaTokenStore } from './GardenaTokenStore.js';
+import { GardenaAccessToken } from './GardenaAccessToken.js';
+import { GardenaLocation, GardenaLocationError, GardenaRealtimeConfig } from './GardenaLocation.js';
+import { GardenaDevice, GardenaDeviceChange } from './GardenaDevice.js';
+import { GardenaRealtimeState } from './Enums.js';
+import { GardenaDeviceRegistry } from './GardenaDeviceRegistry.js';
+import { GardenaTransport, GardenaTransportConfig } from './GardenaTransport.js';
+import { GardenaQuotaExceededError, GardenaQuotaStatus, GardenaRateLimitConfig, GardenaRateLimiter } from './GardenaRateLimiter.js';
+import {
+  GardenaApiError,
+  GardenaApiRequestInfo,
+  GardenaAuthenticationError,
+  GardenaRateLimitError,
+  createNetworkError,
+  createResponseError,
+  toApiError
+} from './GardenaApiError.js';
+import { GardenaUnknownValue, parseErrorResponse, parseJson, parseLocationsResponse } from './GardenaApiParser.js';
+import type { Response } from 'node-fetch';
+import { GardenaLog, GardenaLogConfig } from './GardenaLogger.js';
+import { GardenaMetric, GardenaMetrics, GardenaMetricsHook } from './GardenaMetrics.js';
 
-export type GardenaConnectionConfig = {
-  clientId: string;
-  clientSecret: string;
-};
-
-export class GardenaApiError extends Error {}
+export type GardenaConnectionConfig = GardenaTransportConfig &
+  GardenaLogConfig & {
+    clientId: string;
+    clientSecret: string;
+    apiBaseUrl?: string;
+    authBaseUrl?: string;
+    rateLimit?: GardenaRateLimitConfig;
+    tokenStore?: GardenaTokenStore;
+    backgroundTokenRefresh?: boolean;
+    tokenRefreshMargin?: number; // Seconds
+    realtime?: GardenaRealtimeConfig;
+    locationCacheTtl?: number; // Milliseconds to reuse the list of locations (default 3600000)
+    metrics?: GardenaMetricsHook; // Called for every counted or timed event (see GardenaMetric)
+  };
 
 export enum ApiOutput {
   Json = 'json',
   Text = 'txt'
 }
 
-export class GardenaConnection {
+export class GardenaConnection extends EventEmitter {
   private auth: GardenaAuth;
   private locations: GardenaLocation[];
+  private locationsFetchedAt: number;
+  private locationCacheTtl: number;
+  public readonly deviceRegistry: GardenaDeviceRegistry;
+  public readonly transport: GardenaTransport;
+  public readonly apiBaseUrl: string;
+  public readonly rateLimiter: GardenaRateLimiter;
+  public readonly realtimeConfig: GardenaRealtimeConfig;
+  public readonly log: GardenaLog;
+  public readonly metrics: GardenaMetrics;
+  private pendingRequests = new Map<string, Promise<unknown>>();
 
   public constructor(config: GardenaConnectionConfig) {
-    this.auth = new GardenaAuth({ clientId: config.clientId, clientSecret: config.clientSecret });
+    super();
+
+    this.apiBaseUrl = config.apiBaseUrl ?? API_BASE;
+    this.locationCacheTtl = config.locationCacheTtl ?? 3600000;
+    this.log = new GardenaLog(config);
+    this.metrics = new GardenaMetrics(config.metrics);
+    this.transport = new GardenaTransport(config, this.log);
+    this.rateLimiter = new GardenaRateLimiter(config.rateLimit);
+    this.realtimeConfig = config.realtime ?? {};
+    this.auth = new GardenaAuth({
+      clientId: config.clientId,
+      clientSecret: config.clientSecret,
+      authBaseUrl: config.authBaseUrl,
+      transport: this.transport,
+      tokenStore: config.tokenStore,
+      backgroundTokenRefresh: config.backgroundTokenRefresh,
+      tokenRefreshMargin: config.tokenRefreshMargin,
+      metrics: this.metrics
+    });
+    this.deviceRegistry = new GardenaDeviceRegistry();
   }
 
+  // Without a location, realtime updates are activated for all locations
   public async activateRealtimeUpdates(location?: GardenaLocation | string): Promise<void> {
-    const loc = await this.selectLocation(location);
-    return loc.activateRealtimeUpdates();
+    const locs = await this.selectLocations(location);
+    await Promise.all(
+      locs.map((x) => {
+        return x.activateRealtimeUpdates();
+      })
+    );
   }
 
   public async deactivateRealtimeUpdates(location?: GardenaLocation | string): Promise<void> {
-    const loc = await this.selectLocation(location);
-    return loc.deactivateRealtimeUpdates();
+    const locs = await this.selectLocations(location);
+    await Promise.all(
+      locs.map((x) => {
+        return x.deactivateRealtimeUpdates();
+      })
+    );
   }
 
-  public async getLocations(): Promise<GardenaLocation[]> {
-    // Reset locations list
-    this.locations = [];
+  // The list of locations is cached for 'locationCacheTtl', unless a refresh is requested
+  public async getLocations(refresh = false): Promise<GardenaLocation[]> {
+    if (!refresh && this.locations && Date.now() - this.locationsFetchedAt < this.locationCacheTtl) {
+      return this.locations;
+    }
 
     // Get locations
     try {
-      const res = (await this.apiRequest(`${API_BASE}/locations`)) as GardenaRawLocationsJson;
-      if (res.data) {
-        for (const loc of res.data) {
-          // Add to cached list of locations
-          this.locations.push(new GardenaLocation(this, loc));
+      const res = parseLocationsResponse(await this.apiRequest(`${this.apiBaseUrl}/locations`));
+
+      // Replace cached list of locations (built separately, as concurrent calls share the same response)
+      const previous = this.locations ?? [];
+      const locations: GardenaLocation[] = [];
+      for (const json of res.data) {
+        // Keep known locations, as they hold the devices & realtime connection
+        let location = previous.find((x) => {
+          return x.id == json.id;
+        });
+        if (location) {
+          location.update(json);
+        } else {
+          location = new GardenaLocation(this, json);
+          this.attachLocation(location);
         }
-      } else {
-        throw new GardenaApiError('No locations found');
+        locations.push(location);
       }
+
+      // Stop the realtime updates of locations which are gone
+      for (const location of previous) {
+        if (!locations.includes(location)) {
+          await location.deactivateRealtimeUpdates();
+        }
+      }
+
+      this.locations = locations;
+      this.locationsFetchedAt = Date.now();
     } catch (e) {
-      throw new GardenaApiError('Failed to get locations from Gardena API', { cause: e });
+      throw toApiError(e, 'Failed to get locations from Gardena API');
     }
 
     // Return locations
     return this.locations;
   }
 
+  // Refetch the list of locations on the next request
+  public invalidateLocations(): void {
+    this.locationsFetchedAt = undefined;
+  }
+
+  // Without a location, the devices of all locations are returned
   public async getDevices(location?: GardenaLocation | string): Promise<GardenaDevice[]> {
-    const loc = await this.selectLocation(location);
-    return loc.getDevices();
+    const devices: GardenaDevice[] = [];
+    for (const loc of await this.selectLocations(location)) {
+      devices.push(...(await loc.getDevices()));
+    }
+
+    return devices;
   }
 
-  private async selectLocation(location?: GardenaLocation | string): Promise<GardenaLocation> {
-    // Set provided location
-    if (location && location instanceof GardenaLocation) {
-      return location;
+  // Find a device in any location, by one of its ids or by its name
+  public async findDevice(idOrName: string): Promise<GardenaDevice | undefined> {
+    const devices = await this.getDevices();
+    return (
+      devices.find((x) => {
+        return x.ids.includes(idOrName);
+      }) ??
+      devices.find((x) => {
+        return x.name?.toLowerCase() == idOrName.toLowerCase();
+      })
+    );
+  }
+
+  // Location which holds the given device
+  public async getLocationOf(device: GardenaDevice | string): Promise<GardenaLocation | undefined> {
+    const id = typeof device === 'string' ? device : device.id;
+    for (const location of await this.getLocations()) {
+      const devices = await location.getDevices();
+      if (
+        devices.some((x) => {
+          return x.id == id;
+        })
+      ) {
+        return location;
+      }
     }
 
-    // Get all Locations
-    if (!this.locations) {
-      await this.getLocations();
+    return undefined;
+  }
+
+  public onDeviceChange(func: (device: GardenaDevice, changes: GardenaDeviceChange[], location: GardenaLocation) => void): this {
+    return this.on('deviceChange', func);
+  }
+
+  public onLocationStateChange(
+    func: (location: GardenaLocation, state: GardenaRealtimeState, previousState: GardenaRealtimeState, lastError?: Error) => void
+  ): this {
+    return this.on('locationStateChange', func);
+  }
+
+  public onUnknownValue(func: (value: GardenaUnknownValue, location: GardenaLocation) => void): this {
+    return this.on('unknownValue', func);
+  }
+
+  // Bubble the events of a location, so they can be followed for all locations at once
+  private attachLocation(location: GardenaLocation): void {
+    location.onDeviceChange((device, changes) => {
+      this.emit('deviceChange', device, changes, location);
+    });
+    location.onStateChange((state, previousState, lastError) => {
+      this.emit('locationStateChange', location, state, previousState, lastError);
+    });
+    location.onUnknownValue((value) => {
+      this.emit('unknownValue', value, location);
+    });
+  }
+
+  private async selectLocations(location?: GardenaLocation | string): Promise<GardenaLocation[]> {
+    // All locations
+    if (!location) {
+      return this.getLocations();
+    }
+
+    // Set provided location
+    if (location instanceof GardenaLocation) {
+      return [location];
     }
 
     // Set provided location by id
-    if (location && typeof location === 'string') {
-      const match = this.locations.find((x) => {
-        return x.id == location;
-      });
-      if (match) {
-        return match;
-      } else {
-        throw new GardenaLocationError(`Couldn't find a matching location for id ${location}`);
-      }
+    const match = (await this.getLocations()).find((x) => {
+      return x.id == location;
+    });
+    if (match) {
+      return [match];
+    } else {
+      throw new GardenaLocationError(`Couldn't find a matching location for id ${location}`);
     }
+  }
 
-    // Multiple locations?
-    if (this.locations.length > 1) {
-      throw new GardenaLocationError('Multiple locations available on this Gardena account. Please provide a specific location.');
+  // Stop realtime updates and background work, and revoke the access token unless it should be kept for a next run (by default when there's a token store)
+  public async close(revokeToken = !this.auth.persistsTokens): Promise<void> {
+    for (const location of this.locations ?? []) {
+      await location.deactivateRealtimeUpdates();
     }
 
-    // Return first location
-    return this.locations[0];
+    this.auth.stop();
+    if (revokeToken) {
+      await this.auth.revoke();
+    }
+  }
+
+  public get quotaStatus(): GardenaQuotaStatus {
+    return this.rateLimiter.status;
   }
 
   public async apiRequest(
@@ -102,48 +261,154 @@ export class GardenaConnection {
     expectedStatus = 200,
     expectedOutput = ApiOutput.Json
   ): Promise<any> {
+    // Requests with side effects are always sent
+    if (method != 'GET' || body) {
+      return this.sendApiRequest(url, headers, method, body, expectedStatus, expectedOutput);
+    }
+
+    // Identical concurrent GETs share a single request
+    const key = JSON.stringify([url.toString(), headers, expectedStatus, expectedOutput]);
+    let pending = this.pendingRequests.get(key);
+    if (!pending) {
+      pending = this.sendApiRequest(url, headers, method, body, expectedStatus, expectedOutput).finally(() => {
+        this.pendingRequests.delete(key);
+      });
+      this.pendingRequests.set(key, pending);
+    }
+
+    return pending;
+  }
+
+  private async sendApiRequest(
+    url: string | URL,
+    headers: { [name: string]: string } | undefined,
+    method: string,
+    body: unknown,
+    expectedStatus: number,
+    expectedOutput: ApiOutput
+  ): Promise<unknown> {
+    const request: GardenaApiRequestInfo = { method, url: url.toString() };
     try {
       // Add header when json body object is provided
       let bodyHeader = null;
+      let payload = body as string | undefined;
       if (body && typeof body === 'object') {
         bodyHeader = { 'Content-Type': 'application/vnd.api+json' };
-        body = JSON.stringify(body);
+        payload = JSON.stringify(body);
       }
 
-      // Combine Auth headers with provided ones
-      const combinedHeaders = {
-        ...bodyHeader,
-        ...headers,
-        ...{
-          Authorization: `Bearer ${await this.auth.getValidAccessToken()}`,
-          'X-Api-Key': this.auth.clientId
+      // The one re-authentication after a 401 doesn't count as a retry
+      let reauthenticated = false;
+      let retries = 0;
+      for (;;) {
+        // Wait for the rate limiter
+        await this.acquireRateLimit(request);
+
+        // Combine Auth headers with provided ones
+        const accessToken = await this.getAccessToken(request);
+        const combinedHeaders = {
+          ...bodyHeader,
+          ...headers,
+          ...{
+            Authorization: `Bearer ${accessToken}`,
+            'X-Api-Key': this.auth.clientId
+          }
+        };
+
+        // Request with authorization headers
+        let res: Response;
+        const done = this.metrics.startTimer(GardenaMetric.ApiRequest, { method });
+        try {
+          res = await this.transport.fetch(url, {
+            method,
+            body: payload,
+            headers: combinedHeaders
+          });
+        } catch (e) {
+          done({ status: 'error' });
+          throw createNetworkError(e, request);
         }
-      };
+        done({ status: res.status });
+        request.requestId = res.headers.get('x-request-id') ?? res.headers.get('x-amzn-requestid') ?? undefined;
 
-      // Request with authorization headers
-      const res = await fetch(url, {
-        method,
-        body,
-        headers: combinedHeaders
-      });
+        // Token rejected (e.g. revoked elsewhere), so authenticate again and retry once
+        if (res.status == 401 && expectedStatus != 401 && !reauthenticated) {
+          reauthenticated = true;
+          await this.auth.invalidate(accessToken);
+          continue;
+        }
 
-      // Check status
-      if (res.status != expectedStatus) {
-        throw new GardenaApiError(`Unexpected status ${res.status} on ${method} on ${url.toString()} on the Gardena API`);
-      }
+        // Retry when rate limited or on server errors
+        if (res.status != expectedStatus && (res.status == 429 || res.status >= 500) && retries < this.rateLimiter.maxRetries) {
+          // Retrying before the time asked for by the server won't help, so fail when it's too long to wait
+          const delay = this.rateLimiter.retryDelay(retries, res.headers.get('retry-after'));
+          if (delay <= this.rateLimiter.maxRetryDelay) {
+            this.metrics.count(GardenaMetric.ApiRetry, { method, status: res.status });
+            this.log.info(`Retrying ${method} on ${request.url} in ${delay} ms after status ${res.status}`);
+            if (res.status == 429) {
+              // Hold back all other requests as well
+              this.rateLimiter.block(delay);
+            } else {
+              await new Promise((r) => setTimeout(r, delay));
+            }
+            retries++;
+            continue;
+          }
+        }
+
+        // Check status
+        if (res.status != expectedStatus) {
+          const text = await res.text();
+          const retryAfter = res.headers.get('retry-after');
+          throw createResponseError(
+            res.status,
+            request,
+            text,
+            parseErrorResponse(text),
+            retryAfter ? this.rateLimiter.retryDelay(retries, retryAfter) : undefined
+          );
+        }
+
+        // Get output
+        const output = await res.text();
 
-      // Get output
-      let output = await res.text();
+        // Parse json if needed
+        if (expectedOutput == ApiOutput.Json) {
+          return parseJson(output);
+        }
 
-      // Parse json if needed
-      if (expectedOutput == ApiOutput.Json) {
-        output = JSON.parse(output);
+        // Return output
+        return output;
       }
+    } catch (e) {
+      const error =
+        e instanceof GardenaApiError
+          ? e
+          : new GardenaApiError(`Failed to get response from ${method} on ${url.toString()} on the Gardena API`, { request, cause: e });
+      this.log.warn(error.message, { status: error.status, requestId: request.requestId, errors: error.errors });
+      throw error;
+    }
+  }
 
-      // Return output
-      return output;
+  // Depleted quota is reported like the API being rate limited
+  private async acquireRateLimit(request: GardenaApiRequestInfo): Promise<void> {
+    try {
+      await this.rateLimiter.acquire();
+    } catch (e) {
+      if (!(e instanceof GardenaQuotaExceededError)) {
+        throw e;
+      }
+      const status = this.rateLimiter.status;
+      const resetsAt = status.monthlyRemaining <= 0 ? status.monthlyResetsAt : status.dailyResetsAt;
+      throw new GardenaRateLimitError(e.message, { request, retryAfter: Math.max(resetsAt.diff(Date.now()), 0), cause: e });
+    }
+  }
+
+  private async getAccessToken(request: GardenaApiRequestInfo): Promise<GardenaAccessToken> {
+    try {
+      return await this.auth.getValidAccessToken();
     } catch (e) {
-      throw new GardenaApiError(`Failed to get response from ${method} on ${url.toString()} on the Gardena API`, { cause: e });
+      throw new GardenaAuthenticationError(`Couldn't authenticate for ${request.method} on ${request.url} on the Gardena API`, { request, cause: e });
     }
   }
 }
@@ -2,31 +2,47 @@ import EventEmitter from 'events';
 import Moment from 'moment';
 import { GardenaConnection } from './GardenaConnection.js';
 import { GardenaDeviceBatteryState, GardenaDeviceRfLinkState } from './Enums.js';
+import type { GardenaRawLocationResponse } from './GardenaApiParser.js';
 
-export type GardenaRawDevicesJson = {
-  data: {
-    id: string;
-    type: string;
-    relationships: {
-      devices: {
-        data: {
-          id: string;
-          type: string;
-        }[];
-      };
-    };
-    attributes: { name: string };
-  };
-  included: any[];
-};
+// Snapshot of the devices of a location, as validated by parseLocationResponse
+export type GardenaRawDevicesJson = GardenaRawLocationResponse;
 
 export type GardenaRawDeviceAttributeJson = {
   value: any;
   ts?: Moment.Moment;
 };
 
-export abstract class GardenaDevice extends EventEmitter {
-  protected connection: GardenaConnection;
+export type GardenaDeviceService = {
+  id: string;
+  type: string;
+  attributes: GardenaRawDeviceAttributeJson[];
+};
+
+export type GardenaDeviceChange<T = unknown> = {
+  field: string;
+  oldValue: T;
+  newValue: T;
+  ts: Moment.Moment;
+};
+
+export type GardenaDeviceEventMap = {
+  startWSUpdates: [];
+  stopWSUpdates: [];
+  wsUpdate: [updatedValues: string[]];
+  change: [changes: GardenaDeviceChange[]];
+  batteryChanged: [oldValue: number, newValue: number];
+  rfLinkStateChanged: [oldValue: GardenaDeviceRfLinkState, newValue: GardenaDeviceRfLinkState];
+};
+
+// Attributes of the COMMON service, available on every device
+const COMMON_ATTRIBUTES = ['name', 'serial', 'modelType', 'batteryLevel', 'batteryState', 'rfLinkLevel', 'rfLinkState'];
+
+// Default event map, which also accepts the additional events of each device type (listener arguments can't be narrowed from unknown)
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type GardenaAnyDeviceEventMap = GardenaDeviceEventMap & { [event: string]: any[] };
+
+export abstract class GardenaDevice<T extends GardenaDeviceEventMap & Record<keyof T, unknown[]> = GardenaAnyDeviceEventMap> extends EventEmitter<T> {
+  public readonly connection: GardenaConnection;
   public readonly id: string;
   public serial: string;
   public modelType: string;
@@ -38,6 +54,7 @@ export abstract class GardenaDevice extends EventEmitter {
   public rfLinkLevel: number;
   public rfLinkLevelTs: Moment.Moment;
   public rfLinkState: GardenaDeviceRfLinkState;
+  public rfLinkStateTs: Moment.Moment;
 
   protected constructor(connection: GardenaConnection, id: string) {
     super();
@@ -46,40 +63,123 @@ export abstract class GardenaDevice extends EventEmitter {
     this.id = id;
   }
 
-  public processAttributes(attributes: GardenaRawDeviceAttributeJson[]): string[] {
-    const updatedFields: string[] = [];
+  // Attributes of a device specific service; device level fields are only set by the COMMON service (e.g. a VALVE service has a name of its own)
+  public processAttributes(attributes: GardenaRawDeviceAttributeJson[]): GardenaDeviceChange[] {
+    const fields = Object.keys(attributes).filter((field) => {
+      return field in this && !COMMON_ATTRIBUTES.includes(field);
+    });
+
+    return this.applyAttributes(fields, attributes);
+  }
+
+  public processCommonAttributes(attributes: GardenaRawDeviceAttributeJson[]): GardenaDeviceChange[] {
+    const fields = COMMON_ATTRIBUTES.filter((field) => {
+      return attributes[field] !== undefined;
+    });
+
+    return this.applyAttributes(fields, attributes);
+  }
+
+  private applyAttributes(fields: string[], attributes: GardenaRawDeviceAttributeJson[]): GardenaDeviceChange[] {
+    const changes: GardenaDeviceChange[] = [];
 
-    for (const field in attributes) {
-      if (field in this) {
-        // Update value
-        this[field] = attributes[field].value;
+    for (const field of fields) {
+      const oldValue = this[field];
+      const newValue = attributes[field].value;
 
-        // Update timestamp
-        if (attributes[field].ts) {
-          this[`${field}Ts`] = attributes[field].ts;
-        }
+      // Update value
+      this[field] = newValue;
 
-        // Add field to updates list
-        updatedFields.push(field);
+      // Update timestamp
+      if (attributes[field].ts) {
+        this[`${field}Ts`] = attributes[field].ts;
+      }
+
+      // Add field to changes list, when its value actually changed
+      if (oldValue !== newValue && JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+        changes.push({ field, oldValue, newValue, ts: attributes[field].ts ?? Moment() });
       }
     }
 
-    return updatedFields;
+    return changes;
+  }
+
+  public processRealtimeUpdate(service: GardenaDeviceService): GardenaDeviceChange[] {
+    // Update attributes on device
+    const changes = service.type == 'COMMON' ? this.processCommonAttributes(service.attributes) : this.processAttributes(service.attributes);
+
+    // Emit events for the changes
+    if (changes.length) {
+      this.emitChanges(changes);
+    }
+
+    return changes;
+  }
+
+  protected emitChanges(changes: GardenaDeviceChange[]): void {
+    const emitter = this as GardenaDevice;
+    emitter.emit(
+      'wsUpdate',
+      changes.map((x) => {
+        return x.field;
+      })
+    );
+    emitter.emit('change', changes);
+
+    for (const change of changes) {
+      switch (change.field) {
+        case 'batteryLevel':
+          emitter.emit('batteryChanged', change.oldValue, change.newValue);
+          break;
+        case 'rfLinkState':
+          emitter.emit('rfLinkStateChanged', change.oldValue, change.newValue);
+          break;
+      }
+    }
   }
 
   public onStartRealtimeUpdates(func: () => void): this {
-    return this.on('startWSUpdates', func);
+    return (this as GardenaDevice).on('startWSUpdates', func) as this;
   }
 
   public onStopRealtimeUpdates(func: () => void): this {
-    return this.on('stopWSUpdates', func);
+    return (this as GardenaDevice).on('stopWSUpdates', func) as this;
   }
 
   public onUpdate(func: (updatedValues: string[]) => void): this {
-    return this.on('wsUpdate', func);
+    return (this as GardenaDevice).on('wsUpdate', func) as this;
+  }
+
+  public onChange(func: (changes: GardenaDeviceChange[]) => void): this {
+    return (this as GardenaDevice).on('change', func) as this;
+  }
+
+  public onBatteryChange(func: (oldValue: number, newValue: number) => void): this {
+    return (this as GardenaDevice).on('batteryChanged', func) as this;
   }
 
   public get ids(): string[] {
     return [this.id];
   }
+
+  // Public attributes of the device type, as serialized by toJSON and published by the MQTT bridge
+  public get attributeNames(): string[] {
+    return [...COMMON_ATTRIBUTES];
+  }
+
+  // Plain representation of the device & its attributes (with their '<attribute>Ts' when known), used by JSON.stringify
+  public toJSON(): { [key: string]: unknown } {
+    const json: { [key: string]: unknown } = { id: this.id, type: this.constructor.name.replace(/^Gardena/, '') };
+    for (const attribute of this.attributeNames) {
+      json[attribute] = this[attribute];
+      if (this[`${attribute}Ts`] !== undefined) {
+        json[`${attribute}Ts`] = this[`${attribute}Ts`];
+      }
+    }
+    if ('error' in this) {
+      json.error = this.error;
+    }
+
+    return json;
+  }
 }
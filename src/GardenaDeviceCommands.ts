@@ -0,0 +1,169 @@
+import Moment from 'moment';
+import { GardenaDevice } from './GardenaDevice.js';
+import { GardenaMower } from './GardenaMower.js';
+import { GardenaValve } from './GardenaValve.js';
+import { GardenaIrrigationControl } from './GardenaIrrigationControl.js';
+import { GardenaPowerSocket } from './GardenaPowerSocket.js';
+import { GardenaPump } from './GardenaPump.js';
+import { GardenaSensor } from './GardenaSensor.js';
+
+export type GardenaDeviceCommandParameters = {
+  minutes?: number;
+  until?: string; // ISO 8601
+  valve?: number | string; // Valve of an irrigation control, by number, id or name
+  waitForConfirmation?: boolean; // Mowers only
+  timeout?: number; // Milliseconds, mowers only
+};
+
+// Invalid command or parameters for the device
+export class GardenaDeviceCommandError extends Error {}
+
+// Receives a device of the type it was registered for
+type GardenaDeviceCommandHandler<D extends GardenaDevice = GardenaDevice> = (
+  device: D,
+  parameters: GardenaDeviceCommandParameters
+) => Promise<unknown>;
+
+type GardenaDeviceCommands<D extends GardenaDevice = GardenaDevice> = { [command: string]: GardenaDeviceCommandHandler<D> };
+
+type GardenaDeviceType<D extends GardenaDevice = GardenaDevice> = abstract new (...args: never[]) => D;
+
+// Handlers are only called with devices of their type, so they can be stored with the common device type
+function commandsFor<D extends GardenaDevice>(
+  type: GardenaDeviceType<D>,
+  commands: GardenaDeviceCommands<D>
+): [type: GardenaDeviceType, commands: GardenaDeviceCommands] {
+  return [type, commands as GardenaDeviceCommands];
+}
+
+// Commands by name, per device type
+const COMMANDS: [type: GardenaDeviceType, commands: GardenaDeviceCommands][] = [
+  commandsFor(GardenaMower, {
+    start: (device: GardenaMower, parameters) => {
+      return device.startMowing(requireMinutes(parameters), parameters);
+    },
+    park: (device: GardenaMower, parameters) => {
+      return device.parkUntilFurtherNotice(parameters);
+    },
+    'park-until-next-task': (device: GardenaMower, parameters) => {
+      return device.parkUntilNextTask(parameters);
+    },
+    resume: (device: GardenaMower, parameters) => {
+      return device.resumeSchedule(parameters);
+    }
+  }),
+  commandsFor(GardenaIrrigationControl, {
+    open: (device: GardenaIrrigationControl, parameters) => {
+      return requireValve(device, parameters).openFor(requireMinutes(parameters));
+    },
+    close: (device: GardenaIrrigationControl, parameters) => {
+      return requireValve(device, parameters).close();
+    },
+    'close-all': (device: GardenaIrrigationControl) => {
+      return device.closeAllValves();
+    }
+  }),
+  commandsFor(GardenaValve, {
+    open: (device: GardenaValve, parameters) => {
+      return device.openFor(requireMinutes(parameters));
+    },
+    close: (device: GardenaValve) => {
+      return device.close();
+    },
+    pause: (device: GardenaValve, parameters) => {
+      return device.pauseSchedule(optionalDate(parameters.until));
+    },
+    resume: (device: GardenaValve) => {
+      return device.resumeSchedule();
+    }
+  }),
+  commandsFor(GardenaPowerSocket, {
+    on: (device: GardenaPowerSocket, parameters) => {
+      return parameters.minutes !== undefined ? device.turnOnFor(requireMinutes(parameters)) : device.turnOnIndefinitely();
+    },
+    off: (device: GardenaPowerSocket) => {
+      return device.turnOff();
+    },
+    pause: (device: GardenaPowerSocket, parameters) => {
+      return device.pauseSchedule(optionalDate(parameters.until));
+    },
+    resume: (device: GardenaPowerSocket) => {
+      return device.resumeSchedule();
+    }
+  }),
+  commandsFor(GardenaPump, {
+    start: (device: GardenaPump, parameters) => {
+      return device.startFor(requireMinutes(parameters));
+    },
+    stop: (device: GardenaPump) => {
+      return device.stop();
+    },
+    resume: (device: GardenaPump) => {
+      return device.resumeSchedule();
+    }
+  }),
+  commandsFor(GardenaSensor, {
+    measure: (device: GardenaSensor) => {
+      return device.measure();
+    }
+  })
+];
+
+// Names of the commands supported by the device
+export function getDeviceCommands(device: GardenaDevice): string[] {
+  const entry = COMMANDS.find(([type]) => {
+    return device instanceof type;
+  });
+  return entry ? Object.keys(entry[1]) : [];
+}
+
+// Names of the commands of all device types
+export function getAllDeviceCommands(): string[] {
+  return [
+    ...new Set(
+      COMMANDS.flatMap(([, commands]) => {
+        return Object.keys(commands);
+      })
+    )
+  ];
+}
+
+// Run a command by name, resolving with the result of the device method (e.g. the observed transition of a mower)
+export async function runDeviceCommand(device: GardenaDevice, command: string, parameters: GardenaDeviceCommandParameters = {}): Promise<unknown> {
+  const handler = COMMANDS.find(([type]) => {
+    return device instanceof type;
+  })?.[1][command];
+  if (!handler) {
+    throw new GardenaDeviceCommandError(`Unsupported command '${command}' for ${device.name}`);
+  }
+
+  return handler(device, parameters);
+}
+
+function requireMinutes(parameters: GardenaDeviceCommandParameters): number {
+  const minutes = Number(parameters.minutes);
+  if (!(minutes > 0)) {
+    throw new GardenaDeviceCommandError('A positive number of minutes is required');
+  }
+  return minutes;
+}
+
+function requireValve(device: GardenaIrrigationControl, parameters: GardenaDeviceCommandParameters): GardenaValve {
+  const valve = parameters.valve !== undefined ? device.getValve(parameters.valve) : undefined;
+  if (!valve) {
+    throw new GardenaDeviceCommandError(`A valid valve is required for ${device.name}`);
+  }
+  return valve;
+}
+
+function optionalDate(value?: string): Moment.Moment {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const date = Moment(value, Moment.ISO_8601);
+  if (!date.isValid()) {
+    throw new GardenaDeviceCommandError(`Invalid date '${value}'`);
+  }
+  return date;
+}
@@ -0,0 +1,97 @@
+import { GardenaDevice, GardenaDeviceService, GardenaRawDeviceAttributeJson } from './GardenaDevice.js';
+import { GardenaConnection } from './GardenaConnection.js';
+import { GardenaMower } from './GardenaMower.js';
+import { GardenaValve } from './GardenaValve.js';
+import { GardenaIrrigationControl } from './GardenaIrrigationControl.js';
+import { GardenaPowerSocket } from './GardenaPowerSocket.js';
+import { GardenaSensor } from './GardenaSensor.js';
+import { GardenaPump } from './GardenaPump.js';
+
+export type GardenaDeviceDefinition = {
+  id: string; // Device ID
+  serviceId: string; // ID of the service matching the registered service type
+  services: GardenaDeviceService[]; // All services of the device, including COMMON
+  attributes: GardenaRawDeviceAttributeJson[]; // Merged attributes of all device specific (non COMMON) services
+};
+
+export type GardenaDeviceFactory = (connection: GardenaConnection, definition: GardenaDeviceDefinition) => GardenaDevice;
+
+export type GardenaDeviceFactoryMatch = {
+  serviceType: string;
+  serviceId: string;
+  factory: GardenaDeviceFactory;
+};
+
+export class GardenaDeviceRegistry {
+  private factories = new Map<string, GardenaDeviceFactory>();
+
+  public constructor() {
+    // Built-in devices. Registration order determines precedence, so VALVE_SET has to come before VALVE
+    this.register('MOWER', (connection, d) => {
+      return new GardenaMower(connection, d.id, d.serviceId, d.attributes);
+    });
+    this.register('VALVE_SET', (connection, d) => {
+      // Each VALVE service is a separate valve, so keep them out of the device attributes
+      const valveServices = d.services.filter((x) => {
+        return x.type == 'VALVE';
+      });
+      const attributes: GardenaRawDeviceAttributeJson[] = [];
+      for (const service of d.services) {
+        if (service.type != 'VALVE' && service.type != 'COMMON') {
+          Object.assign(attributes, service.attributes);
+        }
+      }
+
+      return new GardenaIrrigationControl(connection, d.id, d.serviceId, attributes, valveServices);
+    });
+    this.register('VALVE', (connection, d) => {
+      return new GardenaValve(connection, d.id, d.serviceId, d.attributes);
+    });
+    this.register('POWER_SOCKET', (connection, d) => {
+      return new GardenaPowerSocket(connection, d.id, d.serviceId, d.attributes);
+    });
+    this.register('SENSOR', (connection, d) => {
+      return new GardenaSensor(connection, d.id, d.serviceId, d.attributes);
+    });
+    this.register('PUMP', (connection, d) => {
+      return new GardenaPump(connection, d.id, d.serviceId, d.attributes);
+    });
+  }
+
+  // Registering an already known service type replaces its factory, but keeps its precedence
+  public register(serviceType: string, factory: GardenaDeviceFactory): this {
+    this.factories.set(serviceType, factory);
+    return this;
+  }
+
+  public unregister(serviceType: string): this {
+    this.factories.delete(serviceType);
+    return this;
+  }
+
+  public clear(): this {
+    this.factories.clear();
+    return this;
+  }
+
+  public get(serviceType: string): GardenaDeviceFactory {
+    return this.factories.get(serviceType);
+  }
+
+  public get serviceTypes(): string[] {
+    return [...this.factories.keys()];
+  }
+
+  public resolve(services: GardenaDeviceService[]): GardenaDeviceFactoryMatch {
+    for (const [serviceType, factory] of this.factories) {
+      const service = services.find((x) => {
+        return x.type == serviceType;
+      });
+      if (service) {
+        return { serviceType, serviceId: service.id, factory };
+      }
+    }
+
+    return undefined;
+  }
+}
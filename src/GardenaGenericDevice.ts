@@ -0,0 +1,84 @@
+import Moment from 'moment';
+import { GardenaDevice, GardenaDeviceChange, GardenaDeviceService, GardenaRawDeviceAttributeJson } from './GardenaDevice.js';
+import { GardenaConnection } from './GardenaConnection.js';
+
+// Raw service with its attributes in a plain object, so it serializes as such
+export type GardenaGenericDeviceService = {
+  id: string;
+  type: string;
+  attributes: { [name: string]: GardenaRawDeviceAttributeJson };
+};
+
+export class GardenaGenericDevice extends GardenaDevice {
+  // By '<type>:<id>', as the COMMON service shares its ID with the main service of the device
+  public readonly services: { [key: string]: GardenaGenericDeviceService } = {};
+
+  public constructor(connection: GardenaConnection, id: string, services: GardenaDeviceService[]) {
+    super(connection, id);
+
+    for (const service of services) {
+      this.services[serviceKey(service)] = { id: service.id, type: service.type, attributes: Object.fromEntries(Object.entries(service.attributes)) };
+    }
+  }
+
+  public get servicesByType(): { [serviceType: string]: GardenaGenericDeviceService[] } {
+    const servicesByType: { [serviceType: string]: GardenaGenericDeviceService[] } = {};
+    for (const service of Object.values(this.services)) {
+      if (!servicesByType[service.type]) {
+        servicesByType[service.type] = [];
+      }
+      servicesByType[service.type].push(service);
+    }
+
+    return servicesByType;
+  }
+
+  public get serviceTypes(): string[] {
+    return Object.keys(this.servicesByType);
+  }
+
+  public processRealtimeUpdate(service: GardenaDeviceService): GardenaDeviceChange[] {
+    // Keep the raw attributes up to date, reporting them as 'services.<type>:<serviceId>.<attribute>'
+    const key = serviceKey(service);
+    const serviceChanges: GardenaDeviceChange[] = [];
+    if (!this.services[key]) {
+      this.services[key] = { id: service.id, type: service.type, attributes: {} };
+    }
+    const attributes = this.services[key].attributes;
+    for (const field in service.attributes) {
+      const oldValue = attributes[field]?.value;
+      const newValue = service.attributes[field].value;
+      attributes[field] = service.attributes[field];
+
+      if (oldValue !== newValue && JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+        serviceChanges.push({ field: `services.${key}.${field}`, oldValue, newValue, ts: service.attributes[field].ts ?? Moment() });
+      }
+    }
+
+    // Emit together with the changes of the device level fields
+    const changes = [
+      ...(service.type == 'COMMON' ? this.processCommonAttributes(service.attributes) : this.processAttributes(service.attributes)),
+      ...serviceChanges
+    ];
+    if (changes.length) {
+      this.emitChanges(changes);
+    }
+
+    return changes;
+  }
+
+  public get attributeNames(): string[] {
+    return [...super.attributeNames, 'services'];
+  }
+
+  public get ids(): string[] {
+    const serviceIds = Object.values(this.services).map((x) => {
+      return x.id;
+    });
+    return [...new Set([this.id, ...serviceIds])];
+  }
+}
+
+function serviceKey(service: { id: string; type: string }): string {
+  return `${service.type}:${service.id}`;
+}
@@ -0,0 +1,411 @@
+import crypto from 'crypto';
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { GardenaConnection } from './GardenaConnection.js';
+import { GardenaLocation } from './GardenaLocation.js';
+import { GardenaDevice, GardenaDeviceChange } from './GardenaDevice.js';
+import { GardenaMowerCommandError } from './GardenaMower.js';
+import { GardenaCommandRejectedError, GardenaNotFoundError, GardenaRateLimitError } from './GardenaApiError.js';
+import { GardenaDeviceCommandError, GardenaDeviceCommandParameters, runDeviceCommand } from './GardenaDeviceCommands.js';
+import { GardenaRealtimeState } from './Enums.js';
+
+export type GardenaHttpGatewayConfig = {
+  token?: string; // Require 'Authorization: Bearer <token>' on all requests
+  basePath?: string; // Path prefix of all endpoints, e.g. '/gardena' (default none)
+  heartbeatInterval?: number; // Milliseconds between keep-alive comments on the event stream (default 30000)
+  activateRealtimeUpdates?: boolean; // Activate the realtime updates of all locations on start (default true)
+};
+
+class GardenaHttpError extends Error {
+  public readonly status: number;
+
+  public constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const MAX_BODY_SIZE = 65536;
+
+// JSON schemas of the responses & events, served on GET /schemas/:name
+export const GARDENA_HTTP_GATEWAY_SCHEMAS = {
+  location: {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    $id: 'location',
+    type: 'object',
+    required: ['id', 'name', 'state'],
+    properties: {
+      id: { type: 'string' },
+      name: { type: 'string' },
+      type: { type: 'string' },
+      state: { type: 'string', enum: Object.values(GardenaRealtimeState), description: 'State of the realtime connection' }
+    }
+  },
+  locations: {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    $id: 'locations',
+    type: 'array',
+    items: { $ref: 'location' }
+  },
+  device: {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    $id: 'device',
+    type: 'object',
+    required: ['id', 'type', 'locationId'],
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', description: 'Device class, e.g. Mower, Valve, IrrigationControl, PowerSocket, Sensor, Pump or GenericDevice' },
+      locationId: { type: 'string' },
+      name: { type: 'string' },
+      serial: { type: 'string' },
+      modelType: { type: 'string' },
+      batteryLevel: { type: 'number' },
+      batteryState: { type: 'string' },
+      rfLinkLevel: { type: 'number' },
+      rfLinkState: { type: 'string' },
+      state: { type: 'string' },
+      activity: { type: 'string' },
+      error: { type: ['string', 'null'] }
+    },
+    additionalProperties: true,
+    description: 'Attribute timestamps are provided as <attribute>Ts in ISO 8601'
+  },
+  devices: {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    $id: 'devices',
+    type: 'array',
+    items: { $ref: 'device' }
+  },
+  commandResult: {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    $id: 'commandResult',
+    type: 'object',
+    required: ['deviceId', 'command'],
+    properties: {
+      deviceId: { type: 'string' },
+      command: { type: 'string' },
+      result: { description: 'Observed transition, for mower commands' }
+    }
+  },
+  changeEvent: {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    $id: 'changeEvent',
+    type: 'object',
+    required: ['locationId', 'deviceId', 'changes'],
+    properties: {
+      locationId: { type: 'string' },
+      deviceId: { type: 'string' },
+      deviceName: { type: 'string' },
+      changes: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['field'],
+          properties: { field: { type: 'string' }, oldValue: {}, newValue: {}, ts: { type: ['string', 'null'] } }
+        }
+      }
+    }
+  },
+  stateEvent: {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    $id: 'stateEvent',
+    type: 'object',
+    required: ['locationId', 'state'],
+    properties: {
+      locationId: { type: 'string' },
+      state: { type: 'string', enum: Object.values(GardenaRealtimeState) },
+      previousState: { type: 'string', enum: Object.values(GardenaRealtimeState) }
+    }
+  },
+  error: {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    $id: 'error',
+    type: 'object',
+    required: ['error'],
+    properties: {
+      error: { type: 'string' },
+      result: { description: 'Observed transition, when a mower command was not confirmed' }
+    }
+  }
+};
+
+export class GardenaHttpGateway {
+  public readonly connection: GardenaConnection;
+  private token: string;
+  private basePath: string;
+  private heartbeatInterval: number;
+  private activateRealtimeUpdates: boolean;
+  private locations: GardenaLocation[];
+  private pendingStart: Promise<void>;
+  private detachers: (() => void)[] = [];
+  private clients = new Set<ServerResponse>();
+  private eventId = 0;
+  private heartbeat: NodeJS.Timeout;
+  private server: http.Server;
+
+  public constructor(connection: GardenaConnection, config: GardenaHttpGatewayConfig = {}) {
+    this.connection = connection;
+    this.token = config.token;
+    this.basePath = (config.basePath ?? '').replace(/\/$/, '');
+    this.heartbeatInterval = config.heartbeatInterval ?? 30000;
+    this.activateRealtimeUpdates = config.activateRealtimeUpdates ?? true;
+  }
+
+  // Load all locations & devices once, and keep them up to date through the realtime updates
+  public start(): Promise<void> {
+    if (!this.pendingStart) {
+      this.pendingStart = this.attach().catch((e) => {
+        this.pendingStart = undefined;
+        throw e;
+      });
+    }
+
+    return this.pendingStart;
+  }
+
+  // Serve the gateway on its own HTTP server, resolves with the port
+  public async listen(port = 0, host = '127.0.0.1'): Promise<number> {
+    await this.start();
+
+    if (!this.server) {
+      this.server = http.createServer(this.handler);
+      await new Promise<void>((resolve, reject) => {
+        this.server.once('error', reject);
+        this.server.listen(port, host, () => {
+          resolve();
+        });
+      });
+    }
+
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  public async stop(): Promise<void> {
+    for (const detach of this.detachers) {
+      detach();
+    }
+    this.detachers = [];
+    this.pendingStart = undefined;
+
+    // End event streams & server
+    clearInterval(this.heartbeat);
+    for (const client of this.clients) {
+      client.end();
+    }
+    this.clients.clear();
+    if (this.server) {
+      await new Promise<void>((resolve) => {
+        this.server.close(() => {
+          resolve();
+        });
+        this.server.closeAllConnections();
+      });
+      this.server = undefined;
+    }
+  }
+
+  // Request listener, to mount the gateway in an existing server (e.g. http.createServer or express)
+  public readonly handler = (req: IncomingMessage, res: ServerResponse): void => {
+    this.onRequest(req, res).catch((e) => {
+      if (e instanceof GardenaHttpError) {
+        this.reply(res, e.status, { error: e.message });
+      } else if (e instanceof GardenaDeviceCommandError) {
+        this.reply(res, 400, { error: e.message });
+      } else if (e instanceof GardenaMowerCommandError) {
+        this.reply(res, 409, { error: e.message, result: e.result });
+      } else if (e instanceof GardenaNotFoundError) {
+        this.reply(res, 404, { error: e.message });
+      } else if (e instanceof GardenaCommandRejectedError) {
+        this.reply(res, 409, { error: e.message });
+      } else if (e instanceof GardenaRateLimitError) {
+        this.reply(res, 429, { error: e.message });
+      } else {
+        this.reply(res, 502, { error: errorMessage(e) });
+      }
+    });
+  };
+
+  private async attach(): Promise<void> {
+    this.locations = await this.connection.getLocations();
+
+    for (const location of this.locations) {
+      await location.getDevices();
+      const onDeviceChange = (device: GardenaDevice, changes: GardenaDeviceChange[]) => {
+        this.broadcast('change', { locationId: location.id, deviceId: device.id, deviceName: device.name, changes });
+      };
+      location.onDeviceChange(onDeviceChange);
+      this.detachers.push(() => {
+        location.off('deviceChange', onDeviceChange);
+      });
+
+      const onStateChange = (state: GardenaRealtimeState, previousState: GardenaRealtimeState) => {
+        this.broadcast('state', { locationId: location.id, state, previousState });
+      };
+      location.onStateChange(onStateChange);
+      this.detachers.push(() => {
+        location.off('stateChange', onStateChange);
+      });
+
+      if (this.activateRealtimeUpdates) {
+        await location.activateRealtimeUpdates();
+      }
+    }
+
+    // Keep idle event streams (and proxies in between) alive
+    this.heartbeat = setInterval(() => {
+      for (const client of this.clients) {
+        client.write(': heartbeat\n\n');
+      }
+    }, this.heartbeatInterval);
+    this.heartbeat.unref();
+  }
+
+  private async onRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url, 'http://localhost');
+    if (!url.pathname.startsWith(`${this.basePath}/`)) {
+      throw new GardenaHttpError(404, 'Not found');
+    }
+    const path = url.pathname.slice(this.basePath.length);
+
+    if (this.token && !this.isAuthorized(req)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      throw new GardenaHttpError(401, 'Unauthorized');
+    }
+
+    await this.start();
+
+    let match: RegExpMatchArray;
+    if (req.method == 'GET' && path == '/locations') {
+      this.reply(
+        res,
+        200,
+        this.locations.map((x) => {
+          return { id: x.id, name: x.name, type: x.type, state: x.state };
+        })
+      );
+    } else if (req.method == 'GET' && path == '/devices') {
+      const locationId = url.searchParams.get('location');
+      const locations = this.locations.filter((x) => {
+        return !locationId || x.id == locationId;
+      });
+      this.reply(
+        res,
+        200,
+        locations.flatMap((location) => {
+          return (location.devices ?? []).map((x) => {
+            return { ...x.toJSON(), locationId: location.id };
+          });
+        })
+      );
+    } else if (req.method == 'GET' && (match = path.match(/^\/devices\/([^/]+)$/))) {
+      const { device, location } = this.findDevice(decodeURIComponent(match[1]));
+      this.reply(res, 200, { ...device.toJSON(), locationId: location.id });
+    } else if (req.method == 'POST' && (match = path.match(/^\/devices\/([^/]+)\/commands\/([^/]+)$/))) {
+      const { device } = this.findDevice(decodeURIComponent(match[1]));
+      const command = decodeURIComponent(match[2]);
+      const result = await runDeviceCommand(device, command, await this.readJsonBody(req));
+      this.reply(res, 202, { deviceId: device.id, command, result: result ?? null });
+    } else if (req.method == 'GET' && path == '/events') {
+      this.openEventStream(req, res);
+    } else if (req.method == 'GET' && path == '/schemas') {
+      this.reply(res, 200, GARDENA_HTTP_GATEWAY_SCHEMAS);
+    } else if (req.method == 'GET' && (match = path.match(/^\/schemas\/([^/]+)$/)) && GARDENA_HTTP_GATEWAY_SCHEMAS[match[1]]) {
+      this.reply(res, 200, GARDENA_HTTP_GATEWAY_SCHEMAS[match[1]]);
+    } else {
+      throw new GardenaHttpError(404, 'Not found');
+    }
+  }
+
+  private isAuthorized(req: IncomingMessage): boolean {
+    const header = req.headers.authorization ?? '';
+    if (!header.startsWith('Bearer ')) {
+      return false;
+    }
+
+    // Compare hashes, so the comparison takes the same time regardless of the token length
+    const hash = (value: string) => {
+      return crypto.createHash('sha256').update(value).digest();
+    };
+    return crypto.timingSafeEqual(hash(header.slice(7)), hash(this.token));
+  }
+
+  private findDevice(id: string): { device: GardenaDevice; location: GardenaLocation } {
+    for (const location of this.locations) {
+      const device = location.devices?.find((x) => {
+        return x.id == id;
+      });
+      if (device) {
+        return { device, location };
+      }
+    }
+
+    throw new GardenaHttpError(404, `Couldn't find device ${id}`);
+  }
+
+  private openEventStream(req: IncomingMessage, res: ServerResponse): void {
+    res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+    res.write('retry: 5000\n\n');
+
+    // Start with the current connection state of each location
+    for (const location of this.locations) {
+      res.write(this.event('state', { locationId: location.id, state: location.state }));
+    }
+
+    this.clients.add(res);
+    req.on('close', () => {
+      this.clients.delete(res);
+    });
+  }
+
+  private broadcast(event: string, data: unknown): void {
+    const msg = this.event(event, data);
+    for (const client of this.clients) {
+      client.write(msg);
+    }
+  }
+
+  private event(event: string, data: unknown): string {
+    return `id: ${++this.eventId}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+  }
+
+  private async readJsonBody(req: IncomingMessage): Promise<GardenaDeviceCommandParameters> {
+    let body = '';
+    for await (const chunk of req) {
+      body += chunk;
+      if (body.length > MAX_BODY_SIZE) {
+        throw new GardenaHttpError(413, 'Request body too large');
+      }
+    }
+    if (!body.trim()) {
+      return {};
+    }
+
+    try {
+      const json = JSON.parse(body);
+      if (typeof json !== 'object' || json === null || Array.isArray(json)) {
+        throw new Error('Not an object');
+      }
+      return json;
+    } catch (e) {
+      throw new GardenaHttpError(400, 'Request body must be a JSON object');
+    }
+  }
+
+  private reply(res: ServerResponse, status: number, body: unknown): void {
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
+
+function errorMessage(e: unknown): string {
+  const messages: string[] = [];
+  for (let err = e; err; err = err instanceof Error ? err.cause : undefined) {
+    messages.push(err instanceof Error ? err.message : String(err));
+  }
+  return messages.join(': ');
+}
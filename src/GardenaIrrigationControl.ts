@@ -0,0 +1,143 @@
+import Moment from 'moment';
+import { GardenaDevice, GardenaDeviceChange, GardenaDeviceEventMap, GardenaDeviceService, GardenaRawDeviceAttributeJson } from './GardenaDevice.js';
+import { ApiOutput, GardenaConnection } from './GardenaConnection.js';
+import { toApiError } from './GardenaApiError.js';
+import { createCommandRequest } from './GardenaApiParser.js';
+import { GardenaValve } from './GardenaValve.js';
+import { GardenaValveSetState, GardenaValveSetErrorCode } from './Enums.js';
+
+enum GardenaValveSetCommand {
+  StopUntilNextTask = 'STOP_UNTIL_NEXT_TASK'
+}
+
+export type GardenaIrrigationControlEventMap = GardenaDeviceEventMap & {
+  valveUpdate: [valve: GardenaValve, updatedValues: string[], changes: GardenaDeviceChange[]];
+};
+
+export class GardenaIrrigationControl extends GardenaDevice<GardenaIrrigationControlEventMap> {
+  private serviceId: string;
+  public readonly valves: GardenaValve[];
+  public state: GardenaValveSetState;
+  public stateTs: Moment.Moment;
+  public lastErrorCode: GardenaValveSetErrorCode;
+  public lastErrorCodeTs: Moment.Moment;
+
+  public constructor(
+    connection: GardenaConnection,
+    id: string,
+    serviceId: string,
+    attributes: GardenaRawDeviceAttributeJson[],
+    valveServices: GardenaDeviceService[]
+  ) {
+    super(connection, id);
+
+    this.serviceId = serviceId;
+    this.processAttributes(attributes);
+
+    // Create a valve for each VALVE service of the device
+    this.valves = valveServices.map((x) => {
+      return new GardenaValve(connection, id, x.id, x.attributes, true);
+    });
+
+    // Forward realtime status to the valves
+    this.on('startWSUpdates', () => {
+      for (const valve of this.valves) {
+        valve.emit('startWSUpdates');
+      }
+    });
+    this.on('stopWSUpdates', () => {
+      for (const valve of this.valves) {
+        valve.emit('stopWSUpdates');
+      }
+    });
+  }
+
+  public getValve(valve: string | number): GardenaValve {
+    // By valve number (service IDs are suffixed with ':<number>')
+    if (typeof valve === 'number') {
+      return this.valves.find((x) => {
+        return x.serviceId.endsWith(`:${valve}`);
+      });
+    }
+
+    // By service ID or name
+    return this.valves.find((x) => {
+      return x.serviceId == valve || x.valveName == valve;
+    });
+  }
+
+  public async closeAllValves(): Promise<void> {
+    await this.command(GardenaValveSetCommand.StopUntilNextTask);
+  }
+
+  private async command(command: GardenaValveSetCommand): Promise<void> {
+    try {
+      const body = createCommandRequest('VALVE_SET_CONTROL', { command });
+
+      // Request
+      await this.connection.apiRequest(`${this.connection.apiBaseUrl}/command/${this.serviceId}`, null, 'PUT', body, 202, ApiOutput.Text);
+    } catch (e) {
+      throw toApiError(e, `Couldn't execute VALVE_SET_CONTROL command`);
+    }
+  }
+
+  public processRealtimeUpdate(service: GardenaDeviceService): GardenaDeviceChange[] {
+    const valve = this.valves.find((x) => {
+      return x.serviceId == service.id;
+    });
+
+    // Not linked to a specific valve, so update the device itself
+    if (!valve) {
+      return super.processRealtimeUpdate(service);
+    }
+
+    // Update the valve (emitting on the valve) and emit on the device
+    const valveChanges = valve.processRealtimeUpdate(service);
+    if (!valveChanges.length) {
+      return [];
+    }
+    this.emit(
+      'valveUpdate',
+      valve,
+      valveChanges.map((x) => {
+        return x.field;
+      }),
+      valveChanges
+    );
+
+    // Also as changes of the device itself, reported as 'valves.<serviceId>.<field>', so they bubble up to the location & connection
+    const changes = valveChanges.map((x) => {
+      return { ...x, field: `valves.${valve.serviceId}.${x.field}` };
+    });
+    this.emitChanges(changes);
+
+    return changes;
+  }
+
+  public onValveUpdate(func: (valve: GardenaValve, updatedValues: string[], changes: GardenaDeviceChange[]) => void): this {
+    return this.on('valveUpdate', func);
+  }
+
+  public get error(): GardenaValveSetErrorCode {
+    // If currently in warning/error state, return the latest known error
+    if ((this.state == GardenaValveSetState.Error || this.state == GardenaValveSetState.Warning) && this.lastErrorCode) {
+      return this.lastErrorCode;
+    }
+
+    return null;
+  }
+
+  public get attributeNames(): string[] {
+    return [...super.attributeNames, 'state', 'lastErrorCode', 'valves'];
+  }
+
+  public get ids(): string[] {
+    return [
+      this.id,
+      this.serviceId,
+      ...this.valves.map((x) => {
+        return x.serviceId;
+      })
+    ];
+  }
+}
@@ -1,43 +1,84 @@
-import Moment from 'moment';
+import EventEmitter from 'events';
 import crypto from 'crypto';
 import WebSocket, { RawData } from 'ws';
-import { API_BASE } from './config.js';
-import { GardenaApiError, GardenaConnection } from './GardenaConnection.js';
-import { GardenaDevice, GardenaRawDeviceAttributeJson, GardenaRawDevicesJson } from './GardenaDevice.js';
-import { GardenaMower } from './GardenaMower.js';
+import { GardenaConnection } from './GardenaConnection.js';
+import { GardenaApiError, GardenaMalformedResponseError, toApiError } from './GardenaApiError.js';
+import {
+  GardenaRawLocationResource,
+  GardenaRawLocationsResponse,
+  GardenaRawRealtimeMessage,
+  GardenaUnknownValue,
+  findUnknownValues,
+  isServiceResource,
+  parseDevices,
+  parseJson,
+  parseLocationResponse,
+  parseRealtimeMessage,
+  parseWebSocketResponse,
+  toDeviceService
+} from './GardenaApiParser.js';
+import { GardenaDevice, GardenaDeviceChange, GardenaDeviceService, GardenaRawDeviceAttributeJson } from './GardenaDevice.js';
+import { GardenaGenericDevice } from './GardenaGenericDevice.js';
+import { GardenaRealtimeState } from './Enums.js';
+import { GardenaMetric } from './GardenaMetrics.js';
 
 export class GardenaLocationError extends Error {}
 
-export type GardenaRawLocationsJson = {
-  data: GardenaRawLocationJson[];
+// As validated by parseLocationsResponse
+export type GardenaRawLocationsJson = GardenaRawLocationsResponse;
+export type GardenaRawLocationJson = GardenaRawLocationResource;
+
+export type GardenaRealtimeConfig = {
+  reconnectDelay?: number; // Initial delay in milliseconds before reconnecting (default 10000)
+  maxReconnectDelay?: number; // Maximum delay in milliseconds between reconnects (default 300000)
+  reconnectJitter?: number; // Random deviation as a fraction of the delay (default 0.2)
+  maxReconnectAttempts?: number; // Consecutive failed attempts before giving up (default unlimited)
+  pingInterval?: number; // Milliseconds between heartbeats (default 150000)
+  pongTimeout?: number; // Milliseconds to wait for a heartbeat response (default 1000)
 };
 
-export type GardenaRawLocationJson = {
-  id: string;
-  type: string;
-  attributes: {
-    name: string;
-  };
+const REALTIME_DEFAULTS: Required<GardenaRealtimeConfig> = {
+  reconnectDelay: 10000,
+  maxReconnectDelay: 300000,
+  reconnectJitter: 0.2,
+  maxReconnectAttempts: Infinity,
+  pingInterval: 150000,
+  pongTimeout: 1000
 };
 
-const PING_INTERVAL = 150000; // 150 seconds
-
-export class GardenaLocation {
+export class GardenaLocation extends EventEmitter {
   private connection: GardenaConnection;
   public readonly id: string;
-  public readonly name: string;
+  public name: string;
   public readonly type: string;
   public devices: GardenaDevice[];
   private ws: WebSocket;
   private wsPingInterval: NodeJS.Timeout;
   private wsPongTimeout: NodeJS.Timeout;
+  private wsPingSentAt: number;
   private keepWsAlive: boolean;
+  private realtimeConfig: Required<GardenaRealtimeConfig>;
+  private reconnecting = false;
+  private reconnectAttempts = 0;
+  private reconnectTimeout: NodeJS.Timeout;
+  private reconnectResolve: () => void;
+  private wsGeneration = 0; // Increased on every (de)activation, so work started before it stops
+  public state = GardenaRealtimeState.Closed;
+  public lastError: Error;
 
   public constructor(connection: GardenaConnection, json: GardenaRawLocationJson) {
+    super();
+
     this.connection = connection;
+    this.realtimeConfig = { ...REALTIME_DEFAULTS, ...connection.realtimeConfig };
     this.id = json.id;
-    this.name = json.attributes.name;
     this.type = json.type;
+    this.update(json);
+  }
+
+  // Apply a refreshed list entry to this location
+  public update(json: GardenaRawLocationJson): void {
+    this.name = json.attributes.name;
   }
 
   public async getDevices(): Promise<GardenaDevice[]> {
@@ -48,86 +89,85 @@ export class GardenaLocation {
   }
 
   public async updateDevicesList(): Promise<void> {
-    const supportedDeviceTypes = ['MOWER'];
-
     // Get devices
     const devices: GardenaDevice[] = [];
     try {
-      const res = (await this.connection.apiRequest(`${API_BASE}/locations/${this.id}`)) as GardenaRawDevicesJson;
+      const res = parseLocationResponse(await this.connection.apiRequest(`${this.connection.apiBaseUrl}/locations/${this.id}`));
 
-      if (res.data.relationships.devices.data && res.included) {
-        // Get list of device IDs
-        const deviceIds: string[] = [];
-        for (const device of res.data.relationships.devices.data) {
-          deviceIds.push(device.id);
-        }
+      for (const { id: deviceId, services } of parseDevices(res)) {
+        this.reportUnknownValues(services);
 
-        // Get all characteristics for each device
-        for (const deviceId of deviceIds) {
-          // Get all characteristics which are linked to the device ID
-          const rawCharacteristics = res.included.filter((x) => {
-            return (
-              (x.id == deviceId && x.relationships && x.relationships.services && x.relationships.services.data) ||
-              (x.relationships && x.relationships.device && x.relationships.device.data.id == deviceId)
-            );
-          });
-
-          // Get device type & service ID
-          const characteristicWithType = rawCharacteristics.find((x) => {
-            return (
-              supportedDeviceTypes.find((y) => {
-                return y == x.type;
-              }) !== undefined
-            );
-          });
-          const type = characteristicWithType.type;
-          const serviceId = characteristicWithType.id;
-
-          // Only proceed when a supported device is found
-          const attributes: GardenaRawDeviceAttributeJson[] = [];
-          if (type) {
-            // Check all characteristics
-            for (const c of rawCharacteristics) {
-              // Get attributes
-              if (c.attributes) {
-                for (const [attrName, attrVal] of Object.entries(c.attributes) as any) {
-                  attributes[attrName] = {
-                    value: attrVal.value
-                  };
-
-                  // Add timestamp if provided
-                  if (attrVal.timestamp) {
-                    attributes[attrName].ts = Moment(attrVal.timestamp);
-                  }
-                }
-              }
-            }
+        // Split in the COMMON service and the device specific services
+        const common = services.find((x) => {
+          return x.type == 'COMMON';
+        });
+        const attributes: GardenaRawDeviceAttributeJson[] = [];
+        for (const service of services) {
+          if (service.type != 'COMMON') {
+            Object.assign(attributes, service.attributes);
           }
+        }
 
-          // Parse device
-          let device: GardenaDevice;
-          switch (type) {
-            case 'MOWER':
-              device = new GardenaMower(this.connection, deviceId, serviceId, attributes);
-              break;
-            default:
-              continue;
+        // Keep known devices (and the listeners on them), only updating their state
+        const knownDevice = (this.devices ?? []).find((x) => {
+          return x.id == deviceId;
+        });
+        if (knownDevice) {
+          for (const service of services) {
+            knownDevice.processRealtimeUpdate(service);
           }
+          devices.push(knownDevice);
+          continue;
+        }
+
+        // Parse device through the registered factory for its service type
+        let device: GardenaDevice;
+        const match = this.connection.deviceRegistry.resolve(services);
+        if (match) {
+          device = match.factory(this.connection, { id: deviceId, serviceId: match.serviceId, services, attributes });
+        } else {
+          // Unknown device type, but still expose its raw services
+          device = new GardenaGenericDevice(this.connection, deviceId, services);
+        }
 
-          // Add device to list
-          devices.push(device);
+        // Parse COMMON service
+        if (common) {
+          device.processCommonAttributes(common.attributes);
         }
-      } else {
-        throw new GardenaApiError(`No devices status retrieved for location ${this.id}`);
+
+        // Bubble the updates of the device, with the location they belong to
+        device.onChange((changes) => {
+          this.emit('deviceChange', device, changes);
+        });
+
+        // Add device to list
+        devices.push(device);
       }
     } catch (e) {
-      throw new GardenaApiError('Failed to get locations from Gardena API', { cause: e });
+      throw toApiError(e, 'Failed to get locations from Gardena API');
     }
 
     this.devices = devices;
   }
 
+  // Unknown enum values are kept on the devices as they are, but reported
+  private reportUnknownValues(services: GardenaDeviceService[]): void {
+    for (const service of services) {
+      for (const value of findUnknownValues(service)) {
+        this.connection.log.debug(`Unknown ${value.serviceType} ${value.field} value ${value.value}`, {
+          location: this.id,
+          serviceId: value.serviceId
+        });
+        this.emit('unknownValue', value);
+      }
+    }
+  }
+
   private onWSOpen(): void {
+    this.reconnectAttempts = 0;
+    this.setState(GardenaRealtimeState.Open);
+    this.connection.log.info('Websocket opened', { location: this.id });
+
     // Emit 'startWSUpdates' event on each device when websocket is opened
     for (const device of this.devices) {
       device.emit('startWSUpdates');
@@ -138,128 +178,215 @@ export class GardenaLocation {
       // Expect pong
       this.wsPongTimeout = setTimeout(() => {
         // Didn't recieve a timely pong from the server. So assuming the connection is dead and needs to be reopened
-        this.resetWS();
-      }, 1000);
+        this.connection.metrics.count(GardenaMetric.WebSocketPingTimeout, { location: this.id });
+        this.reconnectWS(new GardenaLocationError('Websocket did not respond to ping in time'));
+      }, this.realtimeConfig.pongTimeout);
 
       // Send ping
+      this.wsPingSentAt = Date.now();
       this.ws.ping((err) => {
         if (err) {
-          this.resetWS();
+          this.reconnectWS(err);
         }
       });
-    }, PING_INTERVAL);
+    }, this.realtimeConfig.pingInterval);
   }
 
   private onWSPong(): void {
     clearTimeout(this.wsPongTimeout);
+    if (this.wsPingSentAt) {
+      this.connection.metrics.time(GardenaMetric.WebSocketPing, Date.now() - this.wsPingSentAt, { location: this.id });
+      this.wsPingSentAt = undefined;
+    }
   }
 
-  private onWSError(): void {
-    this.resetWS();
+  private onWSError(err: Error): void {
+    this.connection.log.warn(`Websocket error: ${err.message}`, { location: this.id });
+    this.reconnectWS(err);
   }
 
   private onWSMessage(data: RawData): void {
-    // Parse JSON
-    let json: any;
+    // Parse & validate, dropping messages which can't be used instead of throwing from the websocket handler
+    let message: GardenaRawRealtimeMessage;
+    const text = data.toString();
+    this.connection.metrics.count(GardenaMetric.WebSocketMessage, { location: this.id });
+    this.connection.log.debug('Websocket frame', { location: this.id, data: text });
     try {
-      json = JSON.parse(data.toString());
+      message = parseRealtimeMessage(parseJson(text));
     } catch (e) {
-      throw new GardenaApiError(`Received websocket message, but couldn't decode as JSON: ${data.toString()}`);
+      this.connection.metrics.count(GardenaMetric.DroppedMessage, { location: this.id });
+      this.connection.log.warn(`Dropped realtime message: ${(e as Error).message}`, { location: this.id });
+      this.emit('invalidMessage', e as GardenaMalformedResponseError, text);
+      return;
+    }
+
+    // Only services carry attributes, location & device messages announce changes to the lists
+    if (!isServiceResource(message)) {
+      return;
     }
 
     // Check if linked to device
     // First by checking the id of the message
     let matchedDevice = this.devices.find((x) => {
-      return x.ids.includes(json.id);
+      return x.ids.includes(message.id);
     });
     // Then by checking the id of the mentioned relationship
-    if (!matchedDevice && json.relationships && json.relationships.device && json.relationships.device.data.id) {
+    if (!matchedDevice && message.relationships?.device) {
       matchedDevice = this.devices.find((x) => {
-        return x.id == json.relationships.device.data.id;
+        return x.id == message.relationships.device.data.id;
       });
     }
 
     if (matchedDevice) {
-      // List attributes
-      if (json.attributes) {
-        const attributes: GardenaRawDeviceAttributeJson[] = [];
-        for (const [attrName, attrVal] of Object.entries(json.attributes) as any) {
-          attributes[attrName] = {
-            value: attrVal.value
-          };
-
-          // Add timestamp if provided
-          if (attrVal.timestamp) {
-            attributes[attrName].ts = Moment(attrVal.timestamp);
-          }
-        }
-
-        // Update attributes on device
-        const updateList = matchedDevice.processAttributes(attributes);
-
-        // Emit event with attributes
-        matchedDevice.emit('wsUpdate', updateList);
-      }
+      // Update attributes on device (or one of its services)
+      const service = toDeviceService(message);
+      this.reportUnknownValues([service]);
+      matchedDevice.processRealtimeUpdate(service);
     }
   }
 
-  private async onWSClose(): Promise<void> {
-    this.resetWS();
+  private onWSClose(code: number): void {
+    this.connection.log.info(`Websocket closed with code ${code}`, { location: this.id });
+    this.reconnectWS(new GardenaLocationError(`Websocket closed with code ${code}`));
   }
 
-  private async resetWS(): Promise<void> {
+  private async reconnectWS(err?: Error): Promise<void> {
+    // Both 'error' and 'close' (or a failing ping) can trigger a reconnect, only handle the first one
+    if (this.reconnecting) {
+      return;
+    }
+    this.reconnecting = true;
+    this.lastError = err ?? this.lastError;
+    const generation = this.wsGeneration;
+
     // Terminate ws
     this.closeWS(true);
 
     // Emit 'stopWSUpdates' event on each device when websocket is closed
-    for (const device of this.devices) {
+    for (const device of this.devices ?? []) {
       device.emit('stopWSUpdates');
     }
 
-    // Wait 10 sec
-    await new Promise((r) => setTimeout(r, 10000));
-
-    // Reinitiate websocket
-    if (this.keepWsAlive) {
-      await this.updateDevicesList();
-      await this.activateRealtimeUpdates();
+    try {
+      while (this.keepWsAlive && generation == this.wsGeneration) {
+        // Give up after too many attempts
+        if (this.reconnectAttempts >= this.realtimeConfig.maxReconnectAttempts) {
+          this.connection.log.error(`Websocket gave up after ${this.reconnectAttempts} reconnect attempts`, {
+            location: this.id,
+            error: this.lastError?.message
+          });
+          this.keepWsAlive = false;
+          this.setState(GardenaRealtimeState.Failed);
+          return;
+        }
+        this.reconnectAttempts++;
+
+        // Wait with exponential backoff & jitter
+        const delay = this.reconnectDelay(this.reconnectAttempts);
+        this.setState(GardenaRealtimeState.Reconnecting);
+        this.connection.metrics.count(GardenaMetric.WebSocketReconnect, { location: this.id, attempt: this.reconnectAttempts });
+        this.connection.log.warn(`Reconnecting websocket in ${delay} ms (attempt ${this.reconnectAttempts})`, {
+          location: this.id,
+          error: this.lastError?.message
+        });
+        this.emit('reconnect', this.reconnectAttempts, delay);
+        await new Promise<void>((r) => {
+          this.reconnectResolve = r;
+          this.reconnectTimeout = setTimeout(r, delay);
+        });
+
+        // Reinitiate websocket, unless deactivated meanwhile
+        if (this.keepWsAlive && generation == this.wsGeneration) {
+          try {
+            await this.updateDevicesList();
+            if (generation != this.wsGeneration) {
+              return;
+            }
+            await this.openWS(generation);
+            return;
+          } catch (e) {
+            this.lastError = e as Error;
+          }
+        }
+      }
+    } finally {
+      this.reconnecting = false;
     }
   }
 
+  private reconnectDelay(attempt: number): number {
+    const delay = Math.min(this.realtimeConfig.reconnectDelay * Math.pow(2, attempt - 1), this.realtimeConfig.maxReconnectDelay);
+    const jitter = delay * this.realtimeConfig.reconnectJitter * (Math.random() * 2 - 1);
+    return Math.max(Math.round(delay + jitter), 0);
+  }
+
   private closeWS(immediatly = false): void {
     if (this.ws) {
-      try {
-        // Close
-        if (immediatly) {
-          this.ws.terminate();
-        } else {
-          this.ws.close();
-        }
+      // Close
+      if (immediatly) {
+        this.ws.terminate();
+      } else {
+        this.ws.close();
+      }
 
-        // Clear timers
-        clearInterval(this.wsPingInterval);
-        clearTimeout(this.wsPongTimeout);
+      // Clear timers
+      clearInterval(this.wsPingInterval);
+      clearTimeout(this.wsPongTimeout);
 
-        // Remove event listeners
-        this.ws.removeAllListeners();
+      // Remove event listeners, but keep ignoring errors: a socket closed while still connecting emits one afterwards
+      this.ws.removeAllListeners();
+      this.ws.on('error', () => {});
 
-        // Unset WS
-        this.ws = undefined;
-      } catch (e) {}
+      // Unset WS
+      this.ws = undefined;
     }
   }
 
+  private setState(state: GardenaRealtimeState): void {
+    if (state == this.state) {
+      return;
+    }
+
+    const previousState = this.state;
+    this.state = state;
+    this.emit('stateChange', state, previousState, this.lastError);
+  }
+
   public async activateRealtimeUpdates(): Promise<void> {
     this.keepWsAlive = true;
+    this.reconnectAttempts = 0;
+    this.lastError = undefined;
+    const generation = ++this.wsGeneration;
 
     // Destroy the already active websocket
     if (this.ws) {
       this.closeWS(true);
     }
 
-    // Get initial list of devices if not already done
-    if (!this.devices) {
-      await this.updateDevicesList();
+    try {
+      // Get initial list of devices if not already done
+      if (!this.devices) {
+        await this.updateDevicesList();
+      }
+      if (generation != this.wsGeneration) {
+        return;
+      }
+
+      await this.openWS(generation);
+    } catch (e) {
+      // A newer (de)activation owns the state by now
+      if (generation == this.wsGeneration) {
+        this.keepWsAlive = false;
+        this.lastError = e as Error;
+        this.setState(GardenaRealtimeState.Failed);
+      }
+      throw e;
+    }
+  }
+
+  private async openWS(generation: number): Promise<void> {
+    if (this.state != GardenaRealtimeState.Reconnecting) {
+      this.setState(GardenaRealtimeState.Connecting);
     }
 
     // Create request body
@@ -276,17 +403,22 @@ export class GardenaLocation {
     // Request Websocket URL
     let websocketUrl: string;
     try {
-      const res = (await this.connection.apiRequest(`${API_BASE}/websocket`, null, 'POST', body, 201)) as any;
+      const res = parseWebSocketResponse(await this.connection.apiRequest(`${this.connection.apiBaseUrl}/websocket`, null, 'POST', body, 201));
       websocketUrl = res.data.attributes.url;
     } catch (e) {
-      throw new GardenaApiError(`Couldn't retrieve websocket URL from Gardena API`, { cause: e });
+      throw toApiError(e, `Couldn't retrieve websocket URL from Gardena API`);
+    }
+
+    // Deactivated while requesting the URL
+    if (generation != this.wsGeneration) {
+      return;
     }
 
     // Setup websocket
     try {
-      this.ws = new WebSocket(websocketUrl);
+      this.ws = this.connection.transport.createWebSocket(websocketUrl);
     } catch (e) {
-      throw new GardenaApiError(`Couldn't setup websocket with Gardena API`);
+      throw new GardenaApiError(`Couldn't setup websocket with Gardena API`, { cause: e });
     }
 
     // Subscribe to events if websocket was succesfully created
@@ -300,17 +432,46 @@ export class GardenaLocation {
       this.ws.on('message', (msg) => {
         this.onWSMessage(msg);
       });
-      this.ws.on('close', () => {
-        this.onWSClose();
+      this.ws.on('close', (code) => {
+        this.onWSClose(code);
       });
-      this.ws.on('error', () => {
-        this.onWSError();
+      this.ws.on('error', (err) => {
+        this.onWSError(err);
       });
     }
   }
 
   public async deactivateRealtimeUpdates(): Promise<void> {
     this.keepWsAlive = false;
+    this.wsGeneration++;
     this.closeWS();
+
+    // Stop a pending reconnect
+    clearTimeout(this.reconnectTimeout);
+    if (this.reconnectResolve) {
+      this.reconnectResolve();
+    }
+
+    this.setState(GardenaRealtimeState.Closed);
+  }
+
+  public onStateChange(func: (state: GardenaRealtimeState, previousState: GardenaRealtimeState, lastError?: Error) => void): this {
+    return this.on('stateChange', func);
+  }
+
+  public onReconnect(func: (attempt: number, delay: number) => void): this {
+    return this.on('reconnect', func);
+  }
+
+  public onDeviceChange(func: (device: GardenaDevice, changes: GardenaDeviceChange[]) => void): this {
+    return this.on('deviceChange', func);
+  }
+
+  public onUnknownValue(func: (value: GardenaUnknownValue) => void): this {
+    return this.on('unknownValue', func);
+  }
+
+  public onInvalidMessage(func: (error: GardenaMalformedResponseError, data: string) => void): this {
+    return this.on('invalidMessage', func);
   }
 }
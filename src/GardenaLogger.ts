@@ -0,0 +1,181 @@
+import EventEmitter from 'events';
+
+export enum GardenaLogLevel {
+  Trace = 'trace',
+  Debug = 'debug',
+  Info = 'info',
+  Warn = 'warn',
+  Error = 'error',
+  Silent = 'silent'
+}
+
+export type GardenaLogContext = { [key: string]: unknown };
+export type GardenaLogMethod = (...args: unknown[]) => void;
+
+// Satisfied by console, winston, pino, bunyan & most other loggers (methods, so loggers typing their first argument still fit)
+export type GardenaLogger = {
+  trace?(...args: unknown[]): void;
+  debug(...args: unknown[]): void;
+  info(...args: unknown[]): void;
+  warn(...args: unknown[]): void;
+  error(...args: unknown[]): void;
+};
+
+export type GardenaLogConfig = {
+  logger?: GardenaLogger; // E.g. console, or a winston or pino logger (default none)
+  logLevel?: GardenaLogLevel; // Minimum level passed to the logger (default info)
+  logContextFirst?: boolean; // Pass the context before the message, as pino & bunyan expect (default false)
+};
+
+const LEVELS = [
+  GardenaLogLevel.Trace,
+  GardenaLogLevel.Debug,
+  GardenaLogLevel.Info,
+  GardenaLogLevel.Warn,
+  GardenaLogLevel.Error,
+  GardenaLogLevel.Silent
+];
+const REDACTED = '[REDACTED]';
+
+// Names of headers, query parameters & body fields holding credentials
+const SECRET_NAME = /secret|token|password|^authorization$|api-?key|cookie|^auth$/i;
+
+export class GardenaLog {
+  private logger: GardenaLogger;
+  private level: number;
+  private contextFirst: boolean;
+
+  public constructor(config: GardenaLogConfig = {}) {
+    this.logger = config.logger;
+    this.level = LEVELS.indexOf(config.logLevel ?? GardenaLogLevel.Info);
+    this.contextFirst = config.logContextFirst ?? false;
+  }
+
+  // Check before building an expensive context, e.g. for tracing
+  public isLevelEnabled(level: GardenaLogLevel): boolean {
+    return !!this.logger && level != GardenaLogLevel.Silent && LEVELS.indexOf(level) >= this.level;
+  }
+
+  public trace(message: string, context?: GardenaLogContext): void {
+    this.log(GardenaLogLevel.Trace, message, context);
+  }
+
+  public debug(message: string, context?: GardenaLogContext): void {
+    this.log(GardenaLogLevel.Debug, message, context);
+  }
+
+  public info(message: string, context?: GardenaLogContext): void {
+    this.log(GardenaLogLevel.Info, message, context);
+  }
+
+  public warn(message: string, context?: GardenaLogContext): void {
+    this.log(GardenaLogLevel.Warn, message, context);
+  }
+
+  public error(message: string, context?: GardenaLogContext): void {
+    this.log(GardenaLogLevel.Error, message, context);
+  }
+
+  private log(level: GardenaLogLevel, message: string, context?: GardenaLogContext): void {
+    if (!this.isLevelEnabled(level)) {
+      return;
+    }
+
+    // Loggers without a trace level get those messages as debug
+    const method = this.logger[level] ?? this.logger.debug;
+    try {
+      if (!context) {
+        method.call(this.logger, message);
+      } else if (this.contextFirst) {
+        method.call(this.logger, context, message);
+      } else {
+        method.call(this.logger, message, context);
+      }
+    } catch (e) {
+      // A failing logger shouldn't break the connection
+    }
+  }
+}
+
+// Failure of work running in the background (e.g. a listener): emitting 'error' without listeners would throw and crash the process, so it's logged instead
+export function reportError(emitter: EventEmitter, log: GardenaLog, message: string, error: unknown): void {
+  if (emitter.listenerCount('error') > 0) {
+    emitter.emit('error', error);
+  } else {
+    log.error(`${message}: ${(error as Error)?.message ?? error}`, { error });
+  }
+}
+
+// Hide credentials in query parameters & the token of a revoke request
+export function redactUrl(url: string | URL): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.toString());
+  } catch (e) {
+    return url.toString();
+  }
+
+  parsed.pathname = parsed.pathname.replace(/\/token\/[^/]+/, `/token/${REDACTED}`);
+  for (const name of [...parsed.searchParams.keys()]) {
+    if (SECRET_NAME.test(name)) {
+      parsed.searchParams.set(name, REDACTED);
+    }
+  }
+
+  return parsed.toString().replaceAll(encodeURIComponent(REDACTED), REDACTED);
+}
+
+export function redactHeaders(headers: object | undefined): { [name: string]: string } {
+  const redacted: { [name: string]: string } = {};
+  for (const [name, value] of Object.entries(headers ?? {})) {
+    if (value !== undefined && value !== null) {
+      redacted[name] = SECRET_NAME.test(name) ? REDACTED : String(value);
+    }
+  }
+
+  return redacted;
+}
+
+// Hide credentials in a JSON or form encoded body
+export function redactBody(body: unknown): unknown {
+  if (body === undefined || body === null) {
+    return undefined;
+  }
+
+  if (body instanceof URLSearchParams) {
+    const params = new URLSearchParams(body);
+    for (const name of [...params.keys()]) {
+      if (SECRET_NAME.test(name)) {
+        params.set(name, REDACTED);
+      }
+    }
+    return params.toString().replaceAll(encodeURIComponent(REDACTED), REDACTED);
+  }
+
+  if (typeof body === 'string') {
+    try {
+      return redactValue(JSON.parse(body));
+    } catch (e) {
+      return body;
+    }
+  }
+
+  return redactValue(body);
+}
+
+function redactValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map((x) => {
+      return redactValue(x);
+    });
+  }
+  if (typeof value === 'object' && value !== null) {
+    const redacted = {};
+    for (const [name, x] of Object.entries(value)) {
+      redacted[name] = SECRET_NAME.test(name) ? REDACTED : redactValue(x);
+    }
+    return redacted;
+  }
+
+  return value;
+}
@@ -0,0 +1,93 @@
+import EventEmitter from 'events';
+
+export enum GardenaMetric {
+  ApiRequest = 'apiRequest', // Every attempt, timed, tagged with method & status
+  ApiRetry = 'apiRetry',
+  TokenRefresh = 'tokenRefresh', // Timed, tagged with the outcome
+  WebSocketReconnect = 'webSocketReconnect',
+  WebSocketPing = 'webSocketPing', // Timed until the pong
+  WebSocketPingTimeout = 'webSocketPingTimeout',
+  WebSocketMessage = 'webSocketMessage',
+  DroppedMessage = 'droppedMessage' // Realtime message that couldn't be used
+}
+
+export type GardenaMetricTags = { [name: string]: string | number };
+
+export type GardenaMetricEvent = {
+  metric: GardenaMetric;
+  duration?: number; // Milliseconds, for timed metrics
+  tags: GardenaMetricTags;
+};
+
+export type GardenaMetricsHook = (event: GardenaMetricEvent) => void;
+
+export type GardenaMetricStats = {
+  count: number;
+  totalDuration: number; // Milliseconds, summed over the timed events
+  maxDuration: number;
+  lastDuration?: number;
+};
+
+export class GardenaMetrics extends EventEmitter {
+  private stats = new Map<GardenaMetric, GardenaMetricStats>();
+
+  public constructor(hook?: GardenaMetricsHook) {
+    super();
+
+    if (hook) {
+      this.onMetric(hook);
+    }
+  }
+
+  public count(metric: GardenaMetric, tags: GardenaMetricTags = {}): void {
+    this.record({ metric, tags });
+  }
+
+  public time(metric: GardenaMetric, duration: number, tags: GardenaMetricTags = {}): void {
+    this.record({ metric, duration, tags });
+  }
+
+  // Start timing, the returned function records the metric with the tags known at the end
+  public startTimer(metric: GardenaMetric, tags: GardenaMetricTags = {}): (endTags?: GardenaMetricTags) => number {
+    const startedAt = Date.now();
+    return (endTags) => {
+      const duration = Date.now() - startedAt;
+      this.time(metric, duration, { ...tags, ...endTags });
+      return duration;
+    };
+  }
+
+  // Totals since the connection was created
+  public get snapshot(): { [metric: string]: GardenaMetricStats } {
+    const snapshot = {};
+    for (const [metric, stats] of this.stats) {
+      snapshot[metric] = { ...stats };
+    }
+    return snapshot;
+  }
+
+  public reset(): void {
+    this.stats.clear();
+  }
+
+  public onMetric(func: GardenaMetricsHook): this {
+    return this.on('metric', func);
+  }
+
+  private record(event: GardenaMetricEvent): void {
+    const stats = this.stats.get(event.metric) ?? { count: 0, totalDuration: 0, maxDuration: 0 };
+    stats.count++;
+    if (event.duration !== undefined) {
+      stats.totalDuration += event.duration;
+      stats.maxDuration = Math.max(stats.maxDuration, event.duration);
+      stats.lastDuration = event.duration;
+    }
+    this.stats.set(event.metric, stats);
+
+    try {
+      this.emit('metric', event);
+    } catch (e) {
+      // A failing hook shouldn't break the request it measures
+    }
+  }
+}
@@ -1,19 +1,65 @@
 import Moment from 'moment';
-import crypto from 'crypto';
-import { API_BASE } from './config.js';
-import { GardenaDevice, GardenaRawDeviceAttributeJson } from './GardenaDevice.js';
+import { GardenaDevice, GardenaDeviceChange, GardenaDeviceEventMap, GardenaRawDeviceAttributeJson } from './GardenaDevice.js';
 import { ApiOutput, GardenaConnection } from './GardenaConnection.js';
-import { GardenaApiError } from './GardenaConnection.js';
+import { toApiError } from './GardenaApiError.js';
+import { createCommandRequest } from './GardenaApiParser.js';
 import { GardenaMowerState, GardenaMowerActivity, GardenaMowerErrorCode } from './Enums.js';
 
-enum GardenaMowerCommand {
+export enum GardenaMowerCommand {
   Start = 'START_SECONDS_TO_OVERRIDE',
   ResumeSchedule = 'START_DONT_OVERRIDE',
   ParkUntilNextTask = 'PARK_UNTIL_NEXT_TASK',
   ParkUntilFurtherNotice = 'PARK_UNTIL_FURTHER_NOTICE'
 }
 
-export class GardenaMower extends GardenaDevice {
+// Activities confirming the mower reacted to a command
+const CONFIRMING_ACTIVITIES: { [command in GardenaMowerCommand]: GardenaMowerActivity[] } = {
+  [GardenaMowerCommand.Start]: [GardenaMowerActivity.Leaving, GardenaMowerActivity.Cutting, GardenaMowerActivity.CuttingManual],
+  [GardenaMowerCommand.ResumeSchedule]: [
+    GardenaMowerActivity.Leaving,
+    GardenaMowerActivity.Cutting,
+    GardenaMowerActivity.Parked,
+    GardenaMowerActivity.ParkedInsufficientGrassHeight
+  ],
+  [GardenaMowerCommand.ParkUntilNextTask]: [GardenaMowerActivity.Searching, GardenaMowerActivity.Charging, GardenaMowerActivity.Parked],
+  [GardenaMowerCommand.ParkUntilFurtherNotice]: [GardenaMowerActivity.Searching, GardenaMowerActivity.ParkedManual]
+};
+
+const COMMAND_CONFIRMATION_TIMEOUT = 60000; // 60 seconds
+
+export type GardenaMowerCommandOptions = {
+  waitForConfirmation?: boolean; // Wait until a realtime update confirms the mower reacted (requires active realtime updates)
+  timeout?: number; // Milliseconds to wait for the confirmation (default 60000)
+};
+
+export type GardenaMowerCommandResult = {
+  command: GardenaMowerCommand;
+  confirmed: boolean; // False when not waiting for confirmation
+  previousActivity: GardenaMowerActivity;
+  activity: GardenaMowerActivity;
+  state: GardenaMowerState;
+  error: GardenaMowerErrorCode;
+  transitions: GardenaDeviceChange[]; // Observed activity, state & error changes
+  duration: number; // Milliseconds from sending the command until the result
+};
+
+export class GardenaMowerCommandError extends Error {
+  public readonly result: GardenaMowerCommandResult;
+
+  public constructor(message: string, result: GardenaMowerCommandResult) {
+    super(message);
+    this.result = result;
+  }
+}
+
+export type GardenaMowerEventMap = GardenaDeviceEventMap & {
+  activityChanged: [oldValue: GardenaMowerActivity, newValue: GardenaMowerActivity];
+  stateChanged: [oldValue: GardenaMowerState, newValue: GardenaMowerState];
+  errorRaised: [error: GardenaMowerErrorCode];
+  errorCleared: [previousError: GardenaMowerErrorCode];
+};
+
+export class GardenaMower extends GardenaDevice<GardenaMowerEventMap> {
   private serviceId: string;
   public state: GardenaMowerState;
   public stateTs: Moment.Moment;
@@ -30,33 +76,117 @@ export class GardenaMower extends GardenaDevice {
     this.processAttributes(attributes);
   }
 
-  public async parkUntilFurtherNotice(): Promise<void> {
-    await this.command(GardenaMowerCommand.ParkUntilFurtherNotice);
+  public async parkUntilFurtherNotice(options?: GardenaMowerCommandOptions): Promise<GardenaMowerCommandResult> {
+    return this.command(GardenaMowerCommand.ParkUntilFurtherNotice, undefined, options);
   }
 
-  public async parkUntilNextTask(): Promise<void> {
-    await this.command(GardenaMowerCommand.ParkUntilNextTask);
+  public async parkUntilNextTask(options?: GardenaMowerCommandOptions): Promise<GardenaMowerCommandResult> {
+    return this.command(GardenaMowerCommand.ParkUntilNextTask, undefined, options);
   }
 
-  public async resumeSchedule(): Promise<void> {
-    await this.command(GardenaMowerCommand.ResumeSchedule);
+  public async resumeSchedule(options?: GardenaMowerCommandOptions): Promise<GardenaMowerCommandResult> {
+    return this.command(GardenaMowerCommand.ResumeSchedule, undefined, options);
   }
 
-  public async startMowing(minutes?: number): Promise<void> {
-    await this.command(GardenaMowerCommand.Start, minutes);
+  public async startMowing(minutes?: number, options?: GardenaMowerCommandOptions): Promise<GardenaMowerCommandResult> {
+    return this.command(GardenaMowerCommand.Start, minutes, options);
   }
 
-  private async command(command: GardenaMowerCommand, minutes?: number): Promise<void> {
+  private async command(
+    command: GardenaMowerCommand,
+    minutes?: number,
+    options: GardenaMowerCommandOptions = {}
+  ): Promise<GardenaMowerCommandResult> {
+    const startedAt = Date.now();
+    const previousActivity = this.activity;
+    const previousActivityTs = this.activityTs;
+    const transitions: GardenaDeviceChange[] = [];
+    const result = (confirmed: boolean): GardenaMowerCommandResult => {
+      return {
+        command,
+        confirmed,
+        previousActivity,
+        activity: this.activity,
+        state: this.state,
+        error: this.error,
+        transitions,
+        duration: Date.now() - startedAt
+      };
+    };
+
+    // Start listening before sending the command, so fast updates aren't missed
+    const onChange = (changes: GardenaDeviceChange[]): void => {
+      transitions.push(
+        ...changes.filter((x) => {
+          return x.field == 'activity' || x.field == 'state' || x.field == 'lastErrorCode';
+        })
+      );
+    };
+    this.on('change', onChange);
+
     try {
-      const body: any = {
-        data: {
-          id: crypto.randomUUID(),
-          type: 'MOWER_CONTROL',
-          attributes: {
-            command: command
+      await this.sendCommand(command, minutes);
+      if (!options.waitForConfirmation) {
+        return result(false);
+      }
+
+      // Wait for the mower to react
+      await new Promise<void>((resolve, reject) => {
+        // Only changes since the command was sent count, so a mower which already was in a confirming activity (or in error) doesn't settle it
+        const changed = (...fields: string[]): boolean => {
+          return transitions.some((x) => {
+            return fields.includes(x.field);
+          });
+        };
+        const check = (): boolean => {
+          if (this.state == GardenaMowerState.Error && changed('state', 'lastErrorCode')) {
+            reject(new GardenaMowerCommandError(`Mower entered error state (${this.lastErrorCode}) after ${command} command`, result(false)));
+            return true;
           }
+          // The activity has to be (re)reported by the mower: changed, or with a newer server timestamp than before the command
+          const reported = changed('activity') || (this.activityTs && (!previousActivityTs || this.activityTs.isAfter(previousActivityTs)));
+          if (CONFIRMING_ACTIVITIES[command].includes(this.activity) && reported) {
+            resolve();
+            return true;
+          }
+          return false;
+        };
+        const onUpdate = (): void => {
+          if (check()) {
+            finish();
+          }
+        };
+        const timeout = setTimeout(() => {
+          reject(
+            new GardenaMowerCommandError(
+              `Mower didn't confirm ${command} command within ${options.timeout ?? COMMAND_CONFIRMATION_TIMEOUT}ms (activity ${this.activity})`,
+              result(false)
+            )
+          );
+          finish();
+        }, options.timeout ?? COMMAND_CONFIRMATION_TIMEOUT);
+        const finish = (): void => {
+          clearTimeout(timeout);
+          this.off('change', onUpdate);
+        };
+
+        // Already reacted while the command was sent, otherwise wait for updates
+        if (check()) {
+          finish();
+        } else {
+          this.on('change', onUpdate);
         }
-      };
+      });
+
+      return result(true);
+    } finally {
+      this.off('change', onChange);
+    }
+  }
+
+  private async sendCommand(command: GardenaMowerCommand, minutes?: number): Promise<void> {
+    try {
+      const body = createCommandRequest('MOWER_CONTROL', { command });
 
       // Add seconds to body if minutes provided
       if (minutes) {
@@ -64,21 +194,79 @@ export class GardenaMower extends GardenaDevice {
       }
 
       // Request
-      await this.connection.apiRequest(`${API_BASE}/command/${this.serviceId}`, null, 'PUT', body, 202, ApiOutput.Text);
+      await this.connection.apiRequest(`${this.connection.apiBaseUrl}/command/${this.serviceId}`, null, 'PUT', body, 202, ApiOutput.Text);
     } catch (e) {
-      throw new GardenaApiError(`Couldn't execute MOWER_CONTROL command`, { cause: e });
+      throw toApiError(e, `Couldn't execute MOWER_CONTROL command`);
+    }
+  }
+
+  protected emitChanges(changes: GardenaDeviceChange[]): void {
+    super.emitChanges(changes);
+
+    for (const change of changes) {
+      switch (change.field) {
+        case 'activity':
+          this.emit('activityChanged', change.oldValue as GardenaMowerActivity, change.newValue as GardenaMowerActivity);
+          break;
+        case 'state':
+          this.emit('stateChanged', change.oldValue as GardenaMowerState, change.newValue as GardenaMowerState);
+          break;
+      }
     }
+
+    // Determine the error before these changes
+    const oldValue = <V>(field: string, current: V): V => {
+      const change = changes.find((x) => {
+        return x.field == field;
+      });
+      return change ? (change.oldValue as V) : current;
+    };
+    const previousError = GardenaMower.errorFor(oldValue('state', this.state), oldValue('lastErrorCode', this.lastErrorCode));
+    const error = this.error;
+
+    // Emit when the error changed
+    if (error != previousError) {
+      if (error) {
+        this.emit('errorRaised', error);
+      } else {
+        this.emit('errorCleared', previousError);
+      }
+    }
+  }
+
+  public onActivityChange(func: (oldValue: GardenaMowerActivity, newValue: GardenaMowerActivity) => void): this {
+    return this.on('activityChanged', func);
+  }
+
+  public onStateChange(func: (oldValue: GardenaMowerState, newValue: GardenaMowerState) => void): this {
+    return this.on('stateChanged', func);
+  }
+
+  public onErrorRaised(func: (error: GardenaMowerErrorCode) => void): this {
+    return this.on('errorRaised', func);
+  }
+
+  public onErrorCleared(func: (previousError: GardenaMowerErrorCode) => void): this {
+    return this.on('errorCleared', func);
   }
 
   public get error(): GardenaMowerErrorCode {
+    return GardenaMower.errorFor(this.state, this.lastErrorCode);
+  }
+
+  private static errorFor(state: GardenaMowerState, lastErrorCode: GardenaMowerErrorCode): GardenaMowerErrorCode {
     // If currently in warning/error state, return the latest known error
-    if ((this.state == GardenaMowerState.Error || this.state == GardenaMowerState.Warning) && this.lastErrorCode) {
-      return this.lastErrorCode;
+    if ((state == GardenaMowerState.Error || state == GardenaMowerState.Warning) && lastErrorCode) {
+      return lastErrorCode;
     }
 
     return null;
   }
 
+  public get attributeNames(): string[] {
+    return [...super.attributeNames, 'state', 'activity', 'lastErrorCode', 'operatingHours'];
+  }
+
   public get ids(): string[] {
     return [this.id, this.serviceId];
   }
@@ -0,0 +1,280 @@
+import EventEmitter from 'events';
+import Moment from 'moment';
+import { GardenaDeviceChange } from './GardenaDevice.js';
+import { GardenaMower } from './GardenaMower.js';
+import { GardenaMowerActivity, GardenaMowerErrorCode, GardenaMowerState } from './Enums.js';
+import { reportError } from './GardenaLogger.js';
+import { GardenaMemoryMowerHistoryStore, GardenaMowerHistoryStore } from './GardenaMowerHistoryStore.js';
+
+export type GardenaMowerHistoryConfig = {
+  store?: GardenaMowerHistoryStore; // Defaults to an in-memory store
+  retentionDays?: number; // Days of history to keep (default 90)
+};
+
+export type GardenaMowerHistoryEntry<T = unknown> = {
+  field: string;
+  value: T;
+  ts: Moment.Moment;
+};
+
+export type GardenaMowerDailyStatistics = {
+  date: string; // YYYY-MM-DD, local time
+  cuttingDuration: number; // Milliseconds
+  chargingDuration: number; // Milliseconds
+  parkedDuration: number; // Milliseconds
+  travellingDuration: number; // Milliseconds leaving or searching the charging station
+  chargingSessions: number;
+  errorCount: number;
+  errors: GardenaMowerErrorCode[];
+  operatingHours: number; // Operating hours added during the day
+};
+
+export type GardenaMowerStatistics = {
+  from: string;
+  to: string;
+  days: GardenaMowerDailyStatistics[];
+  totals: Omit<GardenaMowerDailyStatistics, 'date'>;
+};
+
+// Fields of which the transitions are recorded
+const RECORDED_FIELDS = ['activity', 'state', 'lastErrorCode', 'operatingHours'];
+
+const CUTTING_ACTIVITIES = [GardenaMowerActivity.Cutting, GardenaMowerActivity.CuttingManual];
+const PARKED_ACTIVITIES = [GardenaMowerActivity.Parked, GardenaMowerActivity.ParkedManual, GardenaMowerActivity.ParkedInsufficientGrassHeight];
+const TRAVELLING_ACTIVITIES = [GardenaMowerActivity.Leaving, GardenaMowerActivity.Searching];
+
+export class GardenaMowerHistory extends EventEmitter {
+  public readonly mower: GardenaMower;
+  private store: GardenaMowerHistoryStore;
+  private retentionDays: number;
+  private entries: GardenaMowerHistoryEntry[] = [];
+  private onChange: (changes: GardenaDeviceChange[]) => void;
+
+  public constructor(mower: GardenaMower, config: GardenaMowerHistoryConfig = {}) {
+    super();
+
+    this.mower = mower;
+    this.store = config.store ?? new GardenaMemoryMowerHistoryStore();
+    this.retentionDays = config.retentionDays ?? 90;
+  }
+
+  public async start(): Promise<void> {
+    // Restore history of previous runs
+    const stored = await this.store.load(this.mower.id);
+    this.entries = stored.map((x) => {
+      return { field: x.field, value: x.value, ts: Moment(x.ts) };
+    });
+
+    // Record the current snapshot, when it differs from what was last recorded
+    const snapshot: GardenaMowerHistoryEntry[] = [];
+    for (const field of RECORDED_FIELDS) {
+      if (this.mower[field] !== undefined && this.lastValue(field) !== this.mower[field]) {
+        snapshot.push({ field, value: this.mower[field], ts: this.mower[`${field}Ts`] ?? Moment() });
+      }
+    }
+    await this.record(snapshot);
+
+    // Record every following transition
+    if (!this.onChange) {
+      this.onChange = (changes) => {
+        this.record(
+          changes
+            .filter((x) => {
+              return RECORDED_FIELDS.includes(x.field);
+            })
+            .map((x) => {
+              return { field: x.field, value: x.newValue, ts: x.ts };
+            })
+        ).catch((e) => {
+          // Failing to record history must never take down the app
+          reportError(this, this.mower.connection.log, `Failed to record history of ${this.mower.name}`, e);
+        });
+      };
+      this.mower.onChange(this.onChange);
+    }
+  }
+
+  public stop(): void {
+    if (this.onChange) {
+      this.mower.off('change', this.onChange);
+      this.onChange = undefined;
+    }
+  }
+
+  public get timeline(): GardenaMowerHistoryEntry[] {
+    return [...this.entries];
+  }
+
+  public onRecord(func: (entries: GardenaMowerHistoryEntry[]) => void): this {
+    return this.on('record', func);
+  }
+
+  // Failed writes to the store, which are logged when nothing listens
+  public onError(func: (error: Error) => void): this {
+    return this.on('error', func);
+  }
+
+  public getDailyStatistics(day: Moment.MomentInput = Moment()): GardenaMowerDailyStatistics {
+    const start = Moment(day).startOf('day');
+    const end = start.clone().add(1, 'day');
+    const now = Moment();
+
+    const stats: GardenaMowerDailyStatistics = {
+      date: start.format('YYYY-MM-DD'),
+      cuttingDuration: 0,
+      chargingDuration: 0,
+      parkedDuration: 0,
+      travellingDuration: 0,
+      chargingSessions: 0,
+      errorCount: 0,
+      errors: [],
+      operatingHours: 0
+    };
+
+    // Durations of the activities, clipped to the day
+    const activities = this.fieldEntries<GardenaMowerActivity>('activity');
+    for (let i = 0; i < activities.length; i++) {
+      const from = Moment.max(activities[i].ts, start);
+      const to = Moment.min(i + 1 < activities.length ? activities[i + 1].ts : now, end);
+      const duration = Math.max(to.diff(from), 0);
+
+      const activity = activities[i].value;
+      if (CUTTING_ACTIVITIES.includes(activity)) {
+        stats.cuttingDuration += duration;
+      } else if (activity == GardenaMowerActivity.Charging) {
+        stats.chargingDuration += duration;
+      } else if (PARKED_ACTIVITIES.includes(activity)) {
+        stats.parkedDuration += duration;
+      } else if (TRAVELLING_ACTIVITIES.includes(activity)) {
+        stats.travellingDuration += duration;
+      }
+
+      if (activity == GardenaMowerActivity.Charging && this.isWithin(activities[i].ts, start, end)) {
+        stats.chargingSessions++;
+      }
+    }
+
+    // Errors raised during the day
+    const states = this.fieldEntries<GardenaMowerState>('state');
+    for (let i = 0; i < states.length; i++) {
+      const enteredError = states[i].value == GardenaMowerState.Error && (i == 0 || states[i - 1].value != GardenaMowerState.Error);
+      if (enteredError && this.isWithin(states[i].ts, start, end)) {
+        stats.errorCount++;
+      }
+    }
+    stats.errors = this.fieldEntries<GardenaMowerErrorCode>('lastErrorCode')
+      .filter((x) => {
+        return x.value != GardenaMowerErrorCode.NoMessage && this.isWithin(x.ts, start, end);
+      })
+      .map((x) => {
+        return x.value;
+      });
+
+    // Operating hours added during the day
+    const hours = this.fieldEntries<number>('operatingHours');
+    const startHours = this.valueAt(hours, start) ?? hours.find((x) => this.isWithin(x.ts, start, end))?.value;
+    const endHours = this.valueAt(hours, end);
+    if (startHours !== undefined && endHours !== undefined) {
+      stats.operatingHours = Math.max(endHours - startHours, 0);
+    }
+
+    return stats;
+  }
+
+  public getStatistics(from: Moment.MomentInput, to: Moment.MomentInput = Moment()): GardenaMowerStatistics {
+    const days: GardenaMowerDailyStatistics[] = [];
+    for (const day = Moment(from).startOf('day'); day.isSameOrBefore(Moment(to), 'day'); day.add(1, 'day')) {
+      days.push(this.getDailyStatistics(day));
+    }
+
+    // Sum all days
+    const totals: Omit<GardenaMowerDailyStatistics, 'date'> = {
+      cuttingDuration: 0,
+      chargingDuration: 0,
+      parkedDuration: 0,
+      travellingDuration: 0,
+      chargingSessions: 0,
+      errorCount: 0,
+      errors: [],
+      operatingHours: 0
+    };
+    for (const day of days) {
+      totals.cuttingDuration += day.cuttingDuration;
+      totals.chargingDuration += day.chargingDuration;
+      totals.parkedDuration += day.parkedDuration;
+      totals.travellingDuration += day.travellingDuration;
+      totals.chargingSessions += day.chargingSessions;
+      totals.errorCount += day.errorCount;
+      totals.errors.push(...day.errors);
+      totals.operatingHours += day.operatingHours;
+    }
+
+    return { from: days[0]?.date, to: days[days.length - 1]?.date, days, totals };
+  }
+
+  public getWeekStatistics(): GardenaMowerStatistics {
+    return this.getStatistics(Moment().startOf('week'));
+  }
+
+  private async record(entries: GardenaMowerHistoryEntry[]): Promise<void> {
+    if (!entries.length) {
+      return;
+    }
+
+    // Insert ordered by timestamp, as timestamps come from the API
+    this.entries.push(...entries);
+    this.entries.sort((a, b) => {
+      return a.ts.valueOf() - b.ts.valueOf();
+    });
+    this.prune();
+    this.emit('record', entries);
+
+    await this.store.save(
+      this.mower.id,
+      this.entries.map((x) => {
+        return { field: x.field, value: x.value, ts: x.ts.toISOString() };
+      })
+    );
+  }
+
+  // Drop entries beyond the retention period, but keep the last one of each field to know the state at the start of the period
+  private prune(): void {
+    const cutoff = Moment().subtract(this.retentionDays, 'days');
+    const keep = new Set<GardenaMowerHistoryEntry>();
+    for (const field of RECORDED_FIELDS) {
+      const before = this.fieldEntries(field).filter((x) => {
+        return x.ts.isBefore(cutoff);
+      });
+      if (before.length) {
+        keep.add(before[before.length - 1]);
+      }
+    }
+
+    this.entries = this.entries.filter((x) => {
+      return !x.ts.isBefore(cutoff) || keep.has(x);
+    });
+  }
+
+  // Entries of a field, with the type of its value
+  private fieldEntries<T = unknown>(field: string): GardenaMowerHistoryEntry<T>[] {
+    return this.entries.filter((x) => {
+      return x.field == field;
+    }) as GardenaMowerHistoryEntry<T>[];
+  }
+
+  private lastValue(field: string): unknown {
+    const entries = this.fieldEntries(field);
+    return entries.length ? entries[entries.length - 1].value : undefined;
+  }
+
+  private valueAt<T>(entries: GardenaMowerHistoryEntry<T>[], ts: Moment.Moment): T {
+    const before = entries.filter((x) => {
+      return x.ts.isBefore(ts);
+    });
+    return before.length ? before[before.length - 1].value : undefined;
+  }
+
+  private isWithin(ts: Moment.Moment, start: Moment.Moment, end: Moment.Moment): boolean {
+    return !ts.isBefore(start) && ts.isBefore(end);
+  }
+}
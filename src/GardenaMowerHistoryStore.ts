@@ -0,0 +1,72 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export type GardenaSerializedMowerHistoryEntry = {
+  field: string;
+  value: unknown;
+  ts: string; // ISO 8601
+};
+
+export interface GardenaMowerHistoryStore {
+  load(mowerId: string): Promise<GardenaSerializedMowerHistoryEntry[]>;
+  save(mowerId: string, entries: GardenaSerializedMowerHistoryEntry[]): Promise<void>;
+}
+
+export class GardenaMemoryMowerHistoryStore implements GardenaMowerHistoryStore {
+  private entries = new Map<string, GardenaSerializedMowerHistoryEntry[]>();
+
+  public async load(mowerId: string): Promise<GardenaSerializedMowerHistoryEntry[]> {
+    return [...(this.entries.get(mowerId) ?? [])];
+  }
+
+  public async save(mowerId: string, entries: GardenaSerializedMowerHistoryEntry[]): Promise<void> {
+    this.entries.set(mowerId, [...entries]);
+  }
+}
+
+// Stores the history of all mowers in a single JSON file
+export class GardenaFileMowerHistoryStore implements GardenaMowerHistoryStore {
+  public readonly filePath: string;
+  private writing: Promise<void> = Promise.resolve();
+
+  public constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  public async load(mowerId: string): Promise<GardenaSerializedMowerHistoryEntry[]> {
+    const history = await this.read();
+    return history[mowerId] ?? [];
+  }
+
+  public async save(mowerId: string, entries: GardenaSerializedMowerHistoryEntry[]): Promise<void> {
+    // Serialize writes, as multiple mowers can share the file
+    const write = this.writing.then(async () => {
+      const history = await this.read();
+      history[mowerId] = entries;
+      await this.write(history);
+    });
+    this.writing = write.catch(() => {});
+
+    return write;
+  }
+
+  private async read(): Promise<{ [mowerId: string]: GardenaSerializedMowerHistoryEntry[] }> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch (e) {
+      // No file yet, so start from scratch. Anything else (e.g. a corrupt file) would be overwritten on the next save
+      if ((e as NodeJS.ErrnoException).code == 'ENOENT') {
+        return {};
+      }
+      throw e;
+    }
+  }
+
+  private async write(history: { [mowerId: string]: GardenaSerializedMowerHistoryEntry[] }): Promise<void> {
+    // Write to a temporary file first, so a crash never leaves a corrupt file behind
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(history));
+    await fs.rename(tmpPath, this.filePath);
+  }
+}
@@ -0,0 +1,365 @@
+import EventEmitter from 'events';
+import { GardenaConnection } from './GardenaConnection.js';
+import { GardenaLocation } from './GardenaLocation.js';
+import { GardenaDevice, GardenaDeviceChange } from './GardenaDevice.js';
+import { GardenaMower } from './GardenaMower.js';
+import { reportError } from './GardenaLogger.js';
+import { GardenaDeviceRfLinkState, GardenaMowerActivity, GardenaMowerState, GardenaRealtimeState } from './Enums.js';
+
+// Subset of the mqtt.js client used by the bridge, so any compatible client can be passed
+export interface GardenaMqttClient {
+  publish(topic: string, message: string, options: { retain?: boolean; qos?: 0 | 1 | 2 }, callback?: (error?: Error) => void): unknown;
+  subscribe(topic: string, options: { qos?: 0 | 1 | 2 }, callback?: (error?: Error) => void): unknown;
+  unsubscribe(topic: string, callback?: (error?: Error) => void): unknown;
+  on(event: 'message', listener: (topic: string, payload: Buffer) => void): unknown;
+  removeListener(event: 'message', listener: (topic: string, payload: Buffer) => void): unknown;
+}
+
+export type GardenaMqttBridgeConfig = {
+  client: GardenaMqttClient;
+  topicPrefix?: string; // Prefix of all topics (default 'gardena')
+  discovery?: boolean; // Publish Home Assistant discovery payloads (default true)
+  discoveryPrefix?: string; // Home Assistant discovery prefix (default 'homeassistant')
+  defaultMowingMinutes?: number; // Duration of a start command without payload (default 60)
+  qos?: 0 | 1 | 2; // (default 1)
+  activateRealtimeUpdates?: boolean; // Activate the realtime updates of all locations on start (default true)
+};
+
+export enum GardenaMqttCommand {
+  Start = 'start',
+  Park = 'park',
+  ParkUntilNextTask = 'park-until-next-task',
+  Resume = 'resume'
+}
+
+// Activity as understood by the Home Assistant lawn_mower entity
+const HOME_ASSISTANT_ACTIVITIES: { [activity: string]: string } = {
+  [GardenaMowerActivity.Cutting]: 'mowing',
+  [GardenaMowerActivity.CuttingManual]: 'mowing',
+  [GardenaMowerActivity.Leaving]: 'mowing',
+  [GardenaMowerActivity.Searching]: 'returning',
+  [GardenaMowerActivity.Charging]: 'docked',
+  [GardenaMowerActivity.Parked]: 'docked',
+  [GardenaMowerActivity.ParkedManual]: 'docked',
+  [GardenaMowerActivity.ParkedInsufficientGrassHeight]: 'docked',
+  [GardenaMowerActivity.Paused]: 'paused',
+  [GardenaMowerActivity.None]: 'paused'
+};
+
+type GardenaMqttBridgeListener = {
+  target: EventEmitter;
+  event: string;
+  listener: (...args: unknown[]) => void;
+};
+
+export class GardenaMqttBridge extends EventEmitter {
+  public readonly connection: GardenaConnection;
+  private client: GardenaMqttClient;
+  private topicPrefix: string;
+  private discovery: boolean;
+  private discoveryPrefix: string;
+  private defaultMowingMinutes: number;
+  private qos: 0 | 1 | 2;
+  private activateRealtimeUpdates: boolean;
+  private devices = new Map<string, { device: GardenaDevice; location: GardenaLocation }>();
+  private attachedListeners: GardenaMqttBridgeListener[] = [];
+  private onMessage: (topic: string, payload: Buffer) => void;
+
+  public constructor(connection: GardenaConnection, config: GardenaMqttBridgeConfig) {
+    super();
+
+    this.connection = connection;
+    this.client = config.client;
+    this.topicPrefix = config.topicPrefix ?? 'gardena';
+    this.discovery = config.discovery ?? true;
+    this.discoveryPrefix = config.discoveryPrefix ?? 'homeassistant';
+    this.defaultMowingMinutes = config.defaultMowingMinutes ?? 60;
+    this.qos = config.qos ?? 1;
+    this.activateRealtimeUpdates = config.activateRealtimeUpdates ?? true;
+  }
+
+  // Topic & payload to configure as last will on the MQTT client, so the bridge is marked offline when it disappears
+  public get will(): { topic: string; payload: string; retain: boolean } {
+    return { topic: this.availabilityTopic, payload: 'offline', retain: true };
+  }
+
+  public async start(): Promise<void> {
+    if (this.onMessage) {
+      return;
+    }
+
+    // Handle commands
+    this.onMessage = (topic, payload) => {
+      this.handleMessage(topic, payload.toString());
+    };
+    this.client.on('message', this.onMessage);
+    await this.subscribe(`${this.topicPrefix}/+/command/+`);
+
+    // Publish all devices of all locations
+    for (const location of await this.connection.getLocations()) {
+      for (const device of await location.getDevices()) {
+        this.devices.set(device.id, { device, location });
+        this.listen(device, 'change', (changes: GardenaDeviceChange[]) => {
+          this.publishChanges(device, location, changes).catch((e) => {
+            reportError(this, this.connection.log, `Failed to publish changes of ${device.name}`, e);
+          });
+        });
+
+        if (this.discovery) {
+          await this.publishDiscovery(device);
+        }
+        await this.publishAttributes(device);
+        await this.publishAvailability(device, location);
+      }
+
+      // Devices are unavailable while the realtime connection is down
+      this.listen(location, 'stateChange', () => {
+        this.publishLocationAvailability(location).catch((e) => {
+          reportError(this, this.connection.log, `Failed to publish availability of location ${location.name}`, e);
+        });
+      });
+      if (this.activateRealtimeUpdates) {
+        await location.activateRealtimeUpdates();
+      }
+    }
+
+    await this.publish(this.availabilityTopic, 'online');
+  }
+
+  public async stop(): Promise<void> {
+    if (!this.onMessage) {
+      return;
+    }
+
+    for (const x of this.attachedListeners) {
+      x.target.removeListener(x.event, x.listener);
+    }
+    this.attachedListeners = [];
+    this.client.removeListener('message', this.onMessage);
+    this.onMessage = undefined;
+    this.devices.clear();
+
+    await new Promise<void>((resolve) => {
+      this.client.unsubscribe(`${this.topicPrefix}/+/command/+`, () => resolve());
+    });
+    await this.publish(this.availabilityTopic, 'offline');
+  }
+
+  public onCommand(func: (device: GardenaMower, command: GardenaMqttCommand) => void): this {
+    return this.on('command', func);
+  }
+
+  public onCommandFailed(func: (device: GardenaDevice, command: string, error: Error) => void): this {
+    return this.on('commandFailed', func);
+  }
+
+  // Failed publishes of updates, which are logged when nothing listens
+  public onError(func: (error: Error) => void): this {
+    return this.on('error', func);
+  }
+
+  private get availabilityTopic(): string {
+    return `${this.topicPrefix}/bridge/availability`;
+  }
+
+  private deviceTopic(device: GardenaDevice, suffix: string): string {
+    return `${this.topicPrefix}/${device.id}/${suffix}`;
+  }
+
+  private async handleMessage(topic: string, payload: string): Promise<void> {
+    // <prefix>/<deviceId>/command/<command>
+    const parts = topic.split('/');
+    if (parts.length < 3 || parts[parts.length - 2] != 'command' || parts.slice(0, -3).join('/') != this.topicPrefix) {
+      return;
+    }
+    const deviceId = parts[parts.length - 3];
+    const command = parts[parts.length - 1];
+    const entry = this.devices.get(deviceId);
+    if (!entry) {
+      return;
+    }
+
+    const device = entry.device;
+    try {
+      if (!(device instanceof GardenaMower)) {
+        throw new Error(`${device.name} doesn't accept commands`);
+      }
+
+      switch (command) {
+        case GardenaMqttCommand.Start: {
+          const minutes = payload.trim() ? Number(payload) : this.defaultMowingMinutes;
+          if (!(minutes > 0)) {
+            throw new Error(`Invalid amount of minutes '${payload}'`);
+          }
+          await device.startMowing(minutes);
+          break;
+        }
+        case GardenaMqttCommand.Park:
+          await device.parkUntilFurtherNotice();
+          break;
+        case GardenaMqttCommand.ParkUntilNextTask:
+          await device.parkUntilNextTask();
+          break;
+        case GardenaMqttCommand.Resume:
+          await device.resumeSchedule();
+          break;
+        default:
+          throw new Error(`Unknown command '${command}'`);
+      }
+
+      this.emit('command', device, command);
+    } catch (e) {
+      this.emit('commandFailed', device, command, e);
+    }
+  }
+
+  private async publishAttributes(device: GardenaDevice): Promise<void> {
+    const attributes = device.attributeNames.filter((attribute) => {
+      return isPrimitive(device[attribute]);
+    });
+    for (const attribute of attributes) {
+      await this.publish(this.deviceTopic(device, attribute), format(device[attribute]));
+    }
+
+    await this.publishDerived(device);
+  }
+
+  private async publishChanges(device: GardenaDevice, location: GardenaLocation, changes: GardenaDeviceChange[]): Promise<void> {
+    for (const change of changes) {
+      if (isPrimitive(change.newValue)) {
+        await this.publish(this.deviceTopic(device, change.field), format(change.newValue));
+      }
+    }
+
+    await this.publishDerived(device);
+    if (
+      changes.some((x) => {
+        return x.field == 'rfLinkState';
+      })
+    ) {
+      await this.publishAvailability(device, location);
+    }
+  }
+
+  // Values computed from several attributes
+  private async publishDerived(device: GardenaDevice): Promise<void> {
+    if ('error' in device) {
+      await this.publish(this.deviceTopic(device, 'error'), format(device.error));
+    }
+    if (device instanceof GardenaMower) {
+      const activity = device.state == GardenaMowerState.Error ? 'error' : HOME_ASSISTANT_ACTIVITIES[device.activity];
+      await this.publish(this.deviceTopic(device, 'lawnMowerActivity'), activity ?? '');
+    }
+  }
+
+  private async publishLocationAvailability(location: GardenaLocation): Promise<void> {
+    for (const entry of this.devices.values()) {
+      if (entry.location === location) {
+        await this.publishAvailability(entry.device, location);
+      }
+    }
+  }
+
+  private async publishAvailability(device: GardenaDevice, location: GardenaLocation): Promise<void> {
+    const realtime = !this.activateRealtimeUpdates || location.state == GardenaRealtimeState.Open;
+    const online = realtime && device.rfLinkState != GardenaDeviceRfLinkState.Offline;
+    await this.publish(this.deviceTopic(device, 'availability'), online ? 'online' : 'offline');
+  }
+
+  private async publishDiscovery(device: GardenaDevice): Promise<void> {
+    const nodeId = `gardena_${device.id.replace(/[^a-zA-Z0-9_-]/g, '_')}`;
+    const base = {
+      device: {
+        identifiers: [nodeId],
+        name: device.name,
+        manufacturer: 'Gardena',
+        model: device.modelType,
+        serial_number: device.serial
+      },
+      availability: [{ topic: this.availabilityTopic }, { topic: this.deviceTopic(device, 'availability') }],
+      availability_mode: 'all'
+    };
+    const config = (component: string, objectId: string, payload: { [key: string]: unknown }) => {
+      return this.publish(
+        `${this.discoveryPrefix}/${component}/${nodeId}/${objectId}/config`,
+        JSON.stringify({ ...base, unique_id: `${nodeId}_${objectId}`, object_id: `${nodeId}_${objectId}`, ...payload })
+      );
+    };
+
+    if (device instanceof GardenaMower) {
+      await config('lawn_mower', 'mower', {
+        name: null,
+        activity_state_topic: this.deviceTopic(device, 'lawnMowerActivity'),
+        start_mowing_command_topic: this.deviceTopic(device, `command/${GardenaMqttCommand.Start}`),
+        start_mowing_command_template: String(this.defaultMowingMinutes),
+        dock_command_topic: this.deviceTopic(device, `command/${GardenaMqttCommand.ParkUntilNextTask}`),
+        pause_command_topic: this.deviceTopic(device, `command/${GardenaMqttCommand.Park}`)
+      });
+    }
+    if (device.batteryLevel !== undefined) {
+      await config('sensor', 'battery', {
+        name: 'Battery',
+        device_class: 'battery',
+        unit_of_measurement: '%',
+        state_class: 'measurement',
+        state_topic: this.deviceTopic(device, 'batteryLevel')
+      });
+    }
+    if (device.rfLinkLevel !== undefined) {
+      await config('sensor', 'rf_link', {
+        name: 'RF link',
+        icon: 'mdi:wifi',
+        unit_of_measurement: '%',
+        state_class: 'measurement',
+        entity_category: 'diagnostic',
+        state_topic: this.deviceTopic(device, 'rfLinkLevel')
+      });
+    }
+    if ('error' in device) {
+      await config('sensor', 'error', {
+        name: 'Error',
+        icon: 'mdi:alert-circle-outline',
+        entity_category: 'diagnostic',
+        state_topic: this.deviceTopic(device, 'error'),
+        value_template: '{{ value if value else "none" }}'
+      });
+    }
+  }
+
+  private listen<A extends unknown[]>(target: EventEmitter, event: string, listener: (...args: A) => void): void {
+    target.on(event, listener);
+    this.attachedListeners.push({ target, event, listener: listener as (...args: unknown[]) => void });
+  }
+
+  private publish(topic: string, payload: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.client.publish(topic, payload, { retain: true, qos: this.qos }, (error) => {
+        if (error) {
+          reject(error);
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  private subscribe(topic: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.client.subscribe(topic, { qos: this.qos }, (error) => {
+        if (error) {
+          reject(error);
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+}
+
+function isPrimitive(value: unknown): boolean {
+  return value === null || ['string', 'number', 'boolean'].includes(typeof value);
+}
+
+function format(value: unknown): string {
+  return value === undefined || value === null ? '' : String(value);
+}
@@ -0,0 +1,85 @@
+import Moment from 'moment';
+import { GardenaDevice, GardenaRawDeviceAttributeJson } from './GardenaDevice.js';
+import { ApiOutput, GardenaConnection } from './GardenaConnection.js';
+import { toApiError } from './GardenaApiError.js';
+import { createCommandRequest } from './GardenaApiParser.js';
+import { GardenaPowerSocketState, GardenaPowerSocketActivity, GardenaPowerSocketErrorCode } from './Enums.js';
+
+enum GardenaPowerSocketCommand {
+  Start = 'START_SECONDS_TO_OVERRIDE',
+  StartIndefinitely = 'START_OVERRIDE',
+  StopUntilNextTask = 'STOP_UNTIL_NEXT_TASK',
+  Pause = 'PAUSE',
+  Unpause = 'UNPAUSE'
+}
+
+export class GardenaPowerSocket extends GardenaDevice {
+  private serviceId: string;
+  public state: GardenaPowerSocketState;
+  public stateTs: Moment.Moment;
+  public activity: GardenaPowerSocketActivity;
+  public activityTs: Moment.Moment;
+  public duration: number;
+  public durationTs: Moment.Moment;
+  public lastErrorCode: GardenaPowerSocketErrorCode;
+  public lastErrorCodeTs: Moment.Moment;
+
+  public constructor(connection: GardenaConnection, id: string, serviceId: string, attributes: GardenaRawDeviceAttributeJson[]) {
+    super(connection, id);
+
+    this.serviceId = serviceId;
+    this.processAttributes(attributes);
+  }
+
+  public async turnOnFor(minutes: number): Promise<void> {
+    await this.command(GardenaPowerSocketCommand.Start, { seconds: minutes * 60 });
+  }
+
+  public async turnOnIndefinitely(): Promise<void> {
+    await this.command(GardenaPowerSocketCommand.StartIndefinitely);
+  }
+
+  public async turnOff(): Promise<void> {
+    await this.command(GardenaPowerSocketCommand.StopUntilNextTask);
+  }
+
+  public async pauseSchedule(until?: Moment.Moment | Date): Promise<void> {
+    await this.command(GardenaPowerSocketCommand.Pause, until ? { until: Moment(until).toISOString() } : undefined);
+  }
+
+  public async resumeSchedule(): Promise<void> {
+    await this.command(GardenaPowerSocketCommand.Unpause);
+  }
+
+  private async command(command: GardenaPowerSocketCommand, extraAttributes?: { [key: string]: unknown }): Promise<void> {
+    try {
+      const body = createCommandRequest('POWER_SOCKET_CONTROL', { command, ...extraAttributes });
+
+      // Request
+      await this.connection.apiRequest(`${this.connection.apiBaseUrl}/command/${this.serviceId}`, null, 'PUT', body, 202, ApiOutput.Text);
+    } catch (e) {
+      throw toApiError(e, `Couldn't execute POWER_SOCKET_CONTROL command`);
+    }
+  }
+
+  public get isOn(): boolean {
+    return this.activity !== undefined && this.activity != GardenaPowerSocketActivity.Off;
+  }
+
+  public get error(): GardenaPowerSocketErrorCode {
+    // If currently in warning/error state, return the latest known error
+    if ((this.state == GardenaPowerSocketState.Error || this.state == GardenaPowerSocketState.Warning) && this.lastErrorCode) {
+      return this.lastErrorCode;
+    }
+
+    return null;
+  }
+
+  public get attributeNames(): string[] {
+    return [...super.attributeNames, 'state', 'activity', 'duration', 'lastErrorCode'];
+  }
+
+  public get ids(): string[] {
+    return [this.id, this.serviceId];
+  }
+}
@@ -0,0 +1,78 @@
+import Moment from 'moment';
+import { GardenaDevice, GardenaRawDeviceAttributeJson } from './GardenaDevice.js';
+import { ApiOutput, GardenaConnection } from './GardenaConnection.js';
+import { toApiError } from './GardenaApiError.js';
+import { createCommandRequest } from './GardenaApiParser.js';
+import { GardenaPumpState, GardenaPumpMode, GardenaPumpErrorCode } from './Enums.js';
+
+enum GardenaPumpCommand {
+  Start = 'START_SECONDS_TO_OVERRIDE',
+  StopUntilNextTask = 'STOP_UNTIL_NEXT_TASK',
+  Unpause = 'UNPAUSE'
+}
+
+export class GardenaPump extends GardenaDevice {
+  private serviceId: string;
+  public state: GardenaPumpState;
+  public stateTs: Moment.Moment;
+  public operatingMode: GardenaPumpMode;
+  public operatingModeTs: Moment.Moment;
+  public flowRate: number; // Liters per hour
+  public flowRateTs: Moment.Moment;
+  public pressure: number; // Bar
+  public pressureTs: Moment.Moment;
+  public lastErrorCode: GardenaPumpErrorCode;
+  public lastErrorCodeTs: Moment.Moment;
+
+  public constructor(connection: GardenaConnection, id: string, serviceId: string, attributes: GardenaRawDeviceAttributeJson[]) {
+    super(connection, id);
+
+    this.serviceId = serviceId;
+    this.processAttributes(attributes);
+  }
+
+  public async startFor(minutes: number): Promise<void> {
+    await this.command(GardenaPumpCommand.Start, minutes);
+  }
+
+  public async stop(): Promise<void> {
+    await this.command(GardenaPumpCommand.StopUntilNextTask);
+  }
+
+  public async resumeSchedule(): Promise<void> {
+    await this.command(GardenaPumpCommand.Unpause);
+  }
+
+  private async command(command: GardenaPumpCommand, minutes?: number): Promise<void> {
+    try {
+      const body = createCommandRequest('PUMP_CONTROL', { command });
+
+      // Add seconds to body if minutes provided
+      if (minutes) {
+        body.data.attributes.seconds = minutes * 60;
+      }
+
+      // Request
+      await this.connection.apiRequest(`${this.connection.apiBaseUrl}/command/${this.serviceId}`, null, 'PUT', body, 202, ApiOutput.Text);
+    } catch (e) {
+      throw toApiError(e, `Couldn't execute PUMP_CONTROL command`);
+    }
+  }
+
+  public get error(): GardenaPumpErrorCode {
+    // If currently in warning/error state, return the latest known error
+    if ((this.state == GardenaPumpState.Error || this.state == GardenaPumpState.Warning) && this.lastErrorCode) {
+      return this.lastErrorCode;
+    }
+
+    return null;
+  }
+
+  public get attributeNames(): string[] {
+    return [...super.attributeNames, 'state', 'operatingMode', 'flowRate', 'pressure', 'lastErrorCode'];
+  }
+
+  public get ids(): string[] {
+    return [this.id, this.serviceId];
+  }
+}
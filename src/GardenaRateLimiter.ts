@@ -0,0 +1,190 @@
+import EventEmitter from 'events';
+import Moment from 'moment';
+
+export type GardenaRateLimitConfig = {
+  maxRetries?: number; // Retries on 429 & 5xx responses (default 3)
+  retryDelay?: number; // Base delay in milliseconds for the exponential backoff (default 1000)
+  maxRetryDelay?: number; // Maximum delay in milliseconds between retries, requests asked to wait longer by Retry-After fail instead (default 60000)
+  requestsPerSecond?: number; // Token bucket size and refill rate (default 10)
+  dailyQuota?: number; // Requests allowed per UTC day (default unlimited)
+  monthlyQuota?: number; // Requests allowed per UTC month (default unlimited)
+  lowQuotaThreshold?: number; // Fraction of the quota below which 'quotaLow' is emitted (default 0.1)
+};
+
+export type GardenaQuotaStatus = {
+  dailyUsed: number;
+  dailyLimit: number;
+  dailyRemaining: number;
+  dailyResetsAt: Moment.Moment;
+  monthlyUsed: number;
+  monthlyLimit: number;
+  monthlyRemaining: number;
+  monthlyResetsAt: Moment.Moment;
+  blockedUntil: Moment.Moment; // Set while the API asked to back off (429)
+};
+
+export class GardenaQuotaExceededError extends Error {}
+
+export class GardenaRateLimiter extends EventEmitter {
+  public readonly maxRetries: number;
+  private retryBaseDelay: number;
+  public readonly maxRetryDelay: number;
+  private requestsPerSecond: number;
+  private dailyQuota: number;
+  private monthlyQuota: number;
+  private lowQuotaThreshold: number;
+  private tokens: number;
+  private tokensRefilledAt: number;
+  private blockedUntil: number = 0;
+  private day: string;
+  private month: string;
+  private dailyUsed = 0;
+  private monthlyUsed = 0;
+
+  public constructor(config: GardenaRateLimitConfig = {}) {
+    super();
+
+    this.maxRetries = config.maxRetries ?? 3;
+    this.retryBaseDelay = config.retryDelay ?? 1000;
+    this.maxRetryDelay = config.maxRetryDelay ?? 60000;
+    this.requestsPerSecond = config.requestsPerSecond ?? 10;
+    this.dailyQuota = config.dailyQuota ?? Infinity;
+    this.monthlyQuota = config.monthlyQuota ?? Infinity;
+    this.lowQuotaThreshold = config.lowQuotaThreshold ?? 0.1;
+    this.tokens = this.requestsPerSecond;
+    this.tokensRefilledAt = Date.now();
+  }
+
+  // Wait until a request is allowed, and count it against the quota
+  public async acquire(): Promise<void> {
+    for (;;) {
+      this.resetPeriods();
+
+      // Quota depleted?
+      if (this.dailyUsed >= this.dailyQuota || this.monthlyUsed >= this.monthlyQuota) {
+        const status = this.status;
+        this.emit('quotaExceeded', status);
+        throw new GardenaQuotaExceededError(
+          `Gardena API quota exceeded (${status.dailyUsed}/${status.dailyLimit} today, ${status.monthlyUsed}/${status.monthlyLimit} this month)`
+        );
+      }
+
+      // Wait when the API asked to back off
+      const now = Date.now();
+      if (this.blockedUntil > now) {
+        this.emit('throttled', this.blockedUntil - now);
+        await sleep(this.blockedUntil - now);
+        continue;
+      }
+
+      // Refill token bucket
+      this.tokens = Math.min(this.requestsPerSecond, this.tokens + ((now - this.tokensRefilledAt) / 1000) * this.requestsPerSecond);
+      this.tokensRefilledAt = now;
+
+      // Wait for the next token
+      if (this.tokens < 1) {
+        const wait = Math.ceil(((1 - this.tokens) / this.requestsPerSecond) * 1000);
+        this.emit('throttled', wait);
+        await sleep(wait);
+        continue;
+      }
+
+      // Take token & count request
+      this.tokens--;
+      this.dailyUsed++;
+      this.monthlyUsed++;
+      this.emitStatus();
+      return;
+    }
+  }
+
+  // Delay in milliseconds before the given retry, at least as long as a Retry-After header asks for (so may exceed maxRetryDelay)
+  public retryDelay(attempt: number, retryAfter?: string): number {
+    if (retryAfter) {
+      const seconds = Number(retryAfter);
+      if (!isNaN(seconds)) {
+        return Math.max(seconds * 1000, 0);
+      }
+      const date = Moment.utc(new Date(retryAfter));
+      if (date.isValid()) {
+        return Math.max(date.diff(Moment.utc()), 0);
+      }
+    }
+
+    // Exponential backoff with jitter
+    const delay = this.retryBaseDelay * Math.pow(2, attempt);
+    return Math.min(delay / 2 + (Math.random() * delay) / 2, this.maxRetryDelay);
+  }
+
+  // Hold all requests for the given amount of milliseconds
+  public block(ms: number): void {
+    this.blockedUntil = Math.max(this.blockedUntil, Date.now() + ms);
+    this.emit('rateLimited', ms);
+    this.emitStatus();
+  }
+
+  public onQuotaUpdate(func: (status: GardenaQuotaStatus) => void): this {
+    return this.on('quota', func);
+  }
+
+  public onQuotaLow(func: (status: GardenaQuotaStatus) => void): this {
+    return this.on('quotaLow', func);
+  }
+
+  public onQuotaExceeded(func: (status: GardenaQuotaStatus) => void): this {
+    return this.on('quotaExceeded', func);
+  }
+
+  public onRateLimited(func: (retryAfterMs: number) => void): this {
+    return this.on('rateLimited', func);
+  }
+
+  public get status(): GardenaQuotaStatus {
+    this.resetPeriods();
+
+    const now = Moment.utc();
+    return {
+      dailyUsed: this.dailyUsed,
+      dailyLimit: this.dailyQuota,
+      dailyRemaining: Math.max(this.dailyQuota - this.dailyUsed, 0),
+      dailyResetsAt: now.clone().add(1, 'day').startOf('day'),
+      monthlyUsed: this.monthlyUsed,
+      monthlyLimit: this.monthlyQuota,
+      monthlyRemaining: Math.max(this.monthlyQuota - this.monthlyUsed, 0),
+      monthlyResetsAt: now.clone().add(1, 'month').startOf('month'),
+      blockedUntil: this.blockedUntil > Date.now() ? Moment(this.blockedUntil) : null
+    };
+  }
+
+  private emitStatus(): void {
+    const status = this.status;
+    this.emit('quota', status);
+
+    // Warn when running low on either quota
+    if (
+      (isFinite(status.dailyLimit) && status.dailyRemaining <= status.dailyLimit * this.lowQuotaThreshold) ||
+      (isFinite(status.monthlyLimit) && status.monthlyRemaining <= status.monthlyLimit * this.lowQuotaThreshold)
+    ) {
+      this.emit('quotaLow', status);
+    }
+  }
+
+  private resetPeriods(): void {
+    const now = Moment.utc();
+    const day = now.format('YYYY-MM-DD');
+    const month = now.format('YYYY-MM');
+
+    if (day != this.day) {
+      this.day = day;
+      this.dailyUsed = 0;
+    }
+    if (month != this.month) {
+      this.month = month;
+      this.monthlyUsed = 0;
+    }
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((r) => setTimeout(r, ms));
+}
@@ -0,0 +1,464 @@
+import EventEmitter from 'events';
+import { promises as fs } from 'fs';
+import Moment from 'moment';
+import { GardenaConnection } from './GardenaConnection.js';
+import { GardenaDevice } from './GardenaDevice.js';
+import { GardenaDeviceCommandParameters, getAllDeviceCommands, runDeviceCommand } from './GardenaDeviceCommands.js';
+import { reportError } from './GardenaLogger.js';
+
+// All properties given on a condition must match
+export type GardenaRuleCondition = {
+  all?: GardenaRuleCondition[];
+  any?: GardenaRuleCondition[];
+  not?: GardenaRuleCondition;
+  attribute?: string; // Device attribute to compare, e.g. 'activity', 'batteryState' or 'error'
+  equals?: unknown;
+  notEquals?: unknown;
+  in?: unknown[];
+  notIn?: unknown[];
+  above?: number;
+  below?: number;
+  between?: [from: string, to: string]; // Local time window 'HH:mm', which may span midnight
+  days?: number[]; // ISO weekdays, 1 (Monday) to 7 (Sunday)
+  for?: number; // Seconds the condition must have held
+};
+
+export type GardenaRuleAction = GardenaDeviceCommandParameters & {
+  command: string; // Device command, e.g. 'park-until-next-task' (see getDeviceCommands)
+};
+
+export type GardenaRuleDefinition = {
+  name: string;
+  device?: string; // Device id or name (default all devices)
+  deviceType?: string; // Device type, e.g. 'Mower' or 'Valve' (default all types)
+  when: GardenaRuleCondition;
+  then: GardenaRuleAction | GardenaRuleAction[];
+  cooldown?: number; // Seconds before the rule runs again for the same device (default 0)
+  enabled?: boolean; // (default true)
+};
+
+export type GardenaRulesEngineConfig = {
+  rules?: GardenaRuleDefinition[];
+  dryRun?: boolean; // Only emit 'trigger', without running the actions (default false)
+};
+
+export class GardenaRuleError extends Error {}
+
+type GardenaRuleState = {
+  since: Map<GardenaRuleCondition, number>; // Since when each 'for' condition holds
+  fired: boolean; // Ran while the condition holds, so it only runs again once it stopped holding
+  lastRun: number;
+  timer: NodeJS.Timeout;
+};
+
+type GardenaRuleEvaluation = {
+  matched: boolean;
+  nextCheck: number; // Time at which the outcome may change without any device update
+};
+
+const CONDITION_PROPERTIES = ['all', 'any', 'not', 'attribute', 'equals', 'notEquals', 'in', 'notIn', 'above', 'below', 'between', 'days', 'for'];
+const MAX_TIMEOUT = 2147483647; // Maximum delay supported by setTimeout
+
+export class GardenaRulesEngine extends EventEmitter {
+  public readonly connection: GardenaConnection;
+  public dryRun: boolean;
+  private rules = new Map<string, GardenaRuleDefinition>();
+  private states = new Map<string, GardenaRuleState>();
+  private devices: GardenaDevice[];
+  private onDeviceChange: (device: GardenaDevice) => void;
+
+  public constructor(connection: GardenaConnection, config: GardenaRulesEngineConfig = {}) {
+    super();
+
+    this.connection = connection;
+    this.dryRun = config.dryRun ?? false;
+    for (const rule of config.rules ?? []) {
+      this.addRule(rule);
+    }
+  }
+
+  public get ruleDefinitions(): GardenaRuleDefinition[] {
+    return [...this.rules.values()];
+  }
+
+  public addRule(rule: GardenaRuleDefinition): void {
+    validateRule(rule);
+    this.removeRule(rule.name);
+    this.rules.set(rule.name, rule);
+
+    if (this.devices) {
+      for (const device of this.devices) {
+        this.evaluate(rule, device);
+      }
+    }
+  }
+
+  public removeRule(name: string): void {
+    this.rules.delete(name);
+    for (const [key, state] of this.states) {
+      if (key.startsWith(`${name}\0`)) {
+        clearTimeout(state.timer);
+        this.states.delete(key);
+      }
+    }
+  }
+
+  // Accepts a list of rules, or an object with a 'rules' list, as JSON string or parsed
+  public loadRules(json: string | GardenaRuleDefinition[] | { rules: GardenaRuleDefinition[] }): void {
+    let parsed = json;
+    if (typeof parsed === 'string') {
+      try {
+        parsed = JSON.parse(parsed);
+      } catch (e) {
+        throw new GardenaRuleError('Rules are not valid JSON', { cause: e });
+      }
+    }
+
+    const rules = Array.isArray(parsed) ? parsed : (parsed as { rules: GardenaRuleDefinition[] })?.rules;
+    if (!Array.isArray(rules)) {
+      throw new GardenaRuleError('Expected a list of rules');
+    }
+
+    // Validate all rules before adding any
+    for (const rule of rules) {
+      validateRule(rule);
+    }
+    for (const rule of rules) {
+      this.addRule(rule);
+    }
+  }
+
+  public async loadRulesFromFile(filePath: string): Promise<void> {
+    this.loadRules(await fs.readFile(filePath, 'utf8'));
+  }
+
+  // Evaluate the rules for all devices, and again on every update
+  public async start(): Promise<void> {
+    if (this.onDeviceChange) {
+      return;
+    }
+
+    this.onDeviceChange = (device) => {
+      if (this.devices && !this.devices.includes(device)) {
+        this.devices.push(device);
+      }
+      for (const rule of this.rules.values()) {
+        this.evaluate(rule, device);
+      }
+    };
+    this.connection.onDeviceChange(this.onDeviceChange);
+
+    this.devices = await this.connection.getDevices();
+    for (const device of this.devices) {
+      for (const rule of this.rules.values()) {
+        this.evaluate(rule, device);
+      }
+    }
+  }
+
+  public stop(): void {
+    if (this.onDeviceChange) {
+      this.connection.off('deviceChange', this.onDeviceChange);
+      this.onDeviceChange = undefined;
+    }
+    for (const state of this.states.values()) {
+      clearTimeout(state.timer);
+    }
+    this.states.clear();
+    this.devices = undefined;
+  }
+
+  public onTrigger(func: (rule: GardenaRuleDefinition, device: GardenaDevice, actions: GardenaRuleAction[], dryRun: boolean) => void): this {
+    return this.on('trigger', func);
+  }
+
+  public onAction(func: (rule: GardenaRuleDefinition, device: GardenaDevice, action: GardenaRuleAction, result: unknown) => void): this {
+    return this.on('action', func);
+  }
+
+  public onActionFailed(func: (rule: GardenaRuleDefinition, device: GardenaDevice, action: GardenaRuleAction, error: Error) => void): this {
+    return this.on('actionFailed', func);
+  }
+
+  // Failures running a rule other than its actions (e.g. a throwing listener), which are logged when nothing listens
+  public onError(func: (error: Error) => void): this {
+    return this.on('error', func);
+  }
+
+  private evaluate(rule: GardenaRuleDefinition, device: GardenaDevice): void {
+    if (rule.enabled === false || !appliesTo(rule, device)) {
+      return;
+    }
+
+    const key = `${rule.name}\0${device.id}`;
+    let state = this.states.get(key);
+    if (!state) {
+      state = { since: new Map(), fired: false, lastRun: 0, timer: undefined };
+      this.states.set(key, state);
+    }
+    clearTimeout(state.timer);
+
+    const now = Date.now();
+    const evaluation = evaluateCondition(rule.when, device, state, now);
+    let nextCheck = evaluation.nextCheck;
+
+    if (!evaluation.matched) {
+      state.fired = false;
+    } else if (!state.fired) {
+      const cooldownEnd = state.lastRun + (rule.cooldown ?? 0) * 1000;
+      if (now >= cooldownEnd) {
+        state.fired = true;
+        state.lastRun = now;
+        this.run(rule, device).catch((e) => {
+          // E.g. a throwing listener
+          reportError(this, this.connection.log, `Failed to run rule '${rule.name}'`, e);
+        });
+      } else {
+        // Still matching once the cooldown passed?
+        nextCheck = Math.min(nextCheck, cooldownEnd);
+      }
+    }
+
+    // Re-evaluate when the outcome may change without any update (durations, time windows, cooldowns)
+    if (isFinite(nextCheck)) {
+      state.timer = setTimeout(
+        () => {
+          this.evaluate(rule, device);
+        },
+        Math.min(Math.max(nextCheck - now, 0), MAX_TIMEOUT)
+      );
+      state.timer.unref();
+    }
+  }
+
+  private async run(rule: GardenaRuleDefinition, device: GardenaDevice): Promise<void> {
+    const actions = Array.isArray(rule.then) ? rule.then : [rule.then];
+    this.emit('trigger', rule, device, actions, this.dryRun);
+    if (this.dryRun) {
+      return;
+    }
+
+    for (const action of actions) {
+      const { command, ...parameters } = action;
+      try {
+        const result = await runDeviceCommand(device, command, parameters);
+        this.emit('action', rule, device, action, result);
+      } catch (e) {
+        this.emit('actionFailed', rule, device, action, e);
+      }
+    }
+  }
+}
+
+function appliesTo(rule: GardenaRuleDefinition, device: GardenaDevice): boolean {
+  if (rule.device && !device.ids.includes(rule.device) && device.name?.toLowerCase() != rule.device.toLowerCase()) {
+    return false;
+  }
+  if (rule.deviceType && device.constructor.name.replace(/^Gardena/, '').toLowerCase() != rule.deviceType.toLowerCase()) {
+    return false;
+  }
+  return true;
+}
+
+function evaluateCondition(condition: GardenaRuleCondition, device: GardenaDevice, state: GardenaRuleState, now: number): GardenaRuleEvaluation {
+  let matched = true;
+  let nextCheck = Infinity;
+
+  // Nested conditions (all evaluated, so their durations are tracked)
+  if (condition.all) {
+    const results = condition.all.map((x) => {
+      return evaluateCondition(x, device, state, now);
+    });
+    matched = results.every((x) => {
+      return x.matched;
+    });
+    nextCheck = Math.min(
+      nextCheck,
+      ...results.map((x) => {
+        return x.nextCheck;
+      })
+    );
+  }
+  if (condition.any) {
+    const results = condition.any.map((x) => {
+      return evaluateCondition(x, device, state, now);
+    });
+    matched &&= results.some((x) => {
+      return x.matched;
+    });
+    nextCheck = Math.min(
+      nextCheck,
+      ...results.map((x) => {
+        return x.nextCheck;
+      })
+    );
+  }
+  if (condition.not) {
+    const result = evaluateCondition(condition.not, device, state, now);
+    matched &&= !result.matched;
+    nextCheck = Math.min(nextCheck, result.nextCheck);
+  }
+
+  // Attribute comparisons
+  if (condition.attribute !== undefined) {
+    const value = device[condition.attribute];
+    if (condition.equals !== undefined) {
+      matched &&= value === condition.equals;
+    }
+    if (condition.notEquals !== undefined) {
+      matched &&= value !== condition.notEquals;
+    }
+    if (condition.in !== undefined) {
+      matched &&= condition.in.includes(value);
+    }
+    if (condition.notIn !== undefined) {
+      matched &&= !condition.notIn.includes(value);
+    }
+    if (condition.above !== undefined) {
+      matched &&= typeof value === 'number' && value > condition.above;
+    }
+    if (condition.below !== undefined) {
+      matched &&= typeof value === 'number' && value < condition.below;
+    }
+  }
+
+  // Time window
+  if (condition.between || condition.days) {
+    const time = Moment(now);
+    if (condition.days) {
+      matched &&= condition.days.includes(time.isoWeekday());
+      nextCheck = Math.min(nextCheck, time.clone().add(1, 'day').startOf('day').valueOf());
+    }
+    if (condition.between) {
+      const minutes = time.hours() * 60 + time.minutes();
+      const [from, to] = condition.between.map(parseTime);
+      matched &&= from <= to ? minutes >= from && minutes < to : minutes >= from || minutes < to;
+      nextCheck = Math.min(nextCheck, nextOccurrence(time, from), nextOccurrence(time, to));
+    }
+  }
+
+  // Duration the condition held
+  if (condition.for !== undefined) {
+    if (matched) {
+      let since = state.since.get(condition);
+      if (since === undefined) {
+        // The attribute's timestamp tells since when it has its current value
+        const ts = condition.attribute !== undefined ? device[`${condition.attribute}Ts`] : undefined;
+        since = Moment.isMoment(ts) ? Math.min(ts.valueOf(), now) : now;
+        state.since.set(condition, since);
+      }
+
+      const heldUntil = since + condition.for * 1000;
+      if (now < heldUntil) {
+        matched = false;
+        nextCheck = Math.min(nextCheck, heldUntil);
+      }
+    } else {
+      state.since.delete(condition);
+    }
+  }
+
+  return { matched, nextCheck };
+}
+
+function parseTime(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function nextOccurrence(time: Moment.Moment, minutes: number): number {
+  const next = time.clone().startOf('day').add(minutes, 'minutes');
+  if (!next.isAfter(time)) {
+    next.add(1, 'day');
+  }
+  return next.valueOf();
+}
+
+function validateRule(rule: GardenaRuleDefinition): void {
+  if (!rule || typeof rule.name !== 'string' || !rule.name) {
+    throw new GardenaRuleError('Rule without a name');
+  }
+
+  const fail = (message: string) => {
+    throw new GardenaRuleError(`Rule '${rule.name}': ${message}`);
+  };
+  if (!rule.when || typeof rule.when !== 'object') {
+    fail(`missing 'when' condition`);
+  }
+  validateCondition(rule.when, fail);
+
+  const actions = Array.isArray(rule.then) ? rule.then : [rule.then];
+  const commands = getAllDeviceCommands();
+  if (!rule.then || !actions.length) {
+    fail(`missing 'then' actions`);
+  }
+  for (const action of actions) {
+    if (!action || !commands.includes(action.command)) {
+      fail(`unknown command '${action?.command}', expected one of ${commands.join(', ')}`);
+    }
+  }
+  if (rule.cooldown !== undefined && !(rule.cooldown >= 0)) {
+    fail(`'cooldown' must be a positive number of seconds`);
+  }
+}
+
+function validateCondition(condition: GardenaRuleCondition, fail: (message: string) => void): void {
+  if (!condition || typeof condition !== 'object' || Array.isArray(condition)) {
+    fail('conditions must be objects');
+  }
+
+  for (const key of Object.keys(condition)) {
+    if (!CONDITION_PROPERTIES.includes(key)) {
+      fail(`unknown condition property '${key}'`);
+    }
+  }
+  for (const key of ['all', 'any']) {
+    if (condition[key] !== undefined) {
+      if (!Array.isArray(condition[key])) {
+        fail(`'${key}' must be a list of conditions`);
+      }
+      for (const x of condition[key]) {
+        validateCondition(x, fail);
+      }
+    }
+  }
+  if (condition.not !== undefined) {
+    validateCondition(condition.not, fail);
+  }
+
+  const comparisons = ['equals', 'notEquals', 'in', 'notIn', 'above', 'below'].filter((x) => {
+    return condition[x] !== undefined;
+  });
+  if (comparisons.length && condition.attribute === undefined) {
+    fail(`'${comparisons[0]}' requires an 'attribute'`);
+  }
+  for (const key of ['in', 'notIn']) {
+    if (condition[key] !== undefined && !Array.isArray(condition[key])) {
+      fail(`'${key}' must be a list`);
+    }
+  }
+  for (const key of ['above', 'below', 'for']) {
+    if (condition[key] !== undefined && typeof condition[key] !== 'number') {
+      fail(`'${key}' must be a number`);
+    }
+  }
+  if (
+    condition.between !== undefined &&
+    (!Array.isArray(condition.between) ||
+      condition.between.length != 2 ||
+      !condition.between.every((x) => {
+        return typeof x === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(x);
+      }))
+  ) {
+    fail(`'between' must be two times formatted as HH:mm`);
+  }
+  if (
+    condition.days !== undefined &&
+    (!Array.isArray(condition.days) ||
+      !condition.days.every((x) => {
+        return Number.isInteger(x) && x >= 1 && x <= 7;
+      }))
+  ) {
+    fail(`'days' must be a list of ISO weekdays (1-7)`);
+  }
+}
@@ -0,0 +1,484 @@
+import EventEmitter from 'events';
+import crypto from 'crypto';
+import Moment from 'moment';
+import { GardenaConnection } from './GardenaConnection.js';
+import { GardenaDevice } from './GardenaDevice.js';
+import { GardenaDeviceCommandParameters, getAllDeviceCommands, runDeviceCommand } from './GardenaDeviceCommands.js';
+import { reportError } from './GardenaLogger.js';
+import { GardenaMemorySchedulerStore, GardenaSchedulerStore, GardenaSerializedScheduledJob } from './GardenaSchedulerStore.js';
+
+export enum GardenaMissedRunPolicy {
+  Skip = 'skip', // Report the missed run as skipped, and wait for the next one
+  CatchUp = 'catch-up' // Run once as soon as possible, however many runs were missed
+}
+
+export enum GardenaScheduledRunOutcome {
+  Succeeded = 'succeeded',
+  Failed = 'failed',
+  Skipped = 'skipped'
+}
+
+export type GardenaScheduledJobDefinition = {
+  id?: string; // (default random)
+  device: string; // Device id or name, resolved at every run
+  command: string; // Device command, e.g. 'start' or 'park' (see getDeviceCommands)
+  parameters?: GardenaDeviceCommandParameters;
+  cron?: string; // Recurring, 'minute hour day-of-month month day-of-week' in local time
+  at?: string; // One-off, ISO 8601
+  missedRunPolicy?: GardenaMissedRunPolicy; // (default policy of the scheduler)
+  enabled?: boolean; // (default true)
+};
+
+export type GardenaScheduledJob = GardenaScheduledJobDefinition & {
+  id: string;
+  nextRunAt: Moment.Moment; // Undefined once a one-off job ran, or while disabled
+  lastRunAt?: Moment.Moment;
+  lastOutcome?: GardenaScheduledRunOutcome;
+};
+
+export type GardenaScheduledRun = {
+  job: GardenaScheduledJob;
+  device?: GardenaDevice;
+  scheduledAt: Moment.Moment;
+  startedAt: Moment.Moment;
+  missed: boolean; // Ran or skipped later than the grace period allows, e.g. after a restart
+  outcome: GardenaScheduledRunOutcome;
+  result?: unknown; // Result of the device command, when succeeded
+  error?: Error; // When failed
+};
+
+export type GardenaSchedulerConfig = {
+  store?: GardenaSchedulerStore; // Persists the jobs (default in memory)
+  missedRunPolicy?: GardenaMissedRunPolicy; // For jobs without a policy of their own (default skip)
+  missedRunGrace?: number; // Seconds a run may be late before it counts as missed (default 60)
+};
+
+export class GardenaSchedulerError extends Error {}
+
+type GardenaCronField = {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+};
+
+const CRON_FIELDS: GardenaCronField[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'] },
+  { name: 'day of week', min: 0, max: 7, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] }
+];
+
+const CRON_MACROS = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+};
+
+const MAX_TIMEOUT = 2147483647; // Maximum delay supported by setTimeout
+
+// Standard 5-field cron expression, with lists, ranges, steps, month & weekday names and macros like '@daily'
+export class GardenaCronExpression {
+  public readonly expression: string;
+  private minutes: Set<number>;
+  private hours: Set<number>;
+  private days: Set<number>;
+  private months: Set<number>;
+  private weekdays: Set<number>;
+  private anyDay: boolean;
+  private anyWeekday: boolean;
+
+  public constructor(expression: string) {
+    this.expression = expression;
+
+    const fields = (CRON_MACROS[expression.trim().toLowerCase()] ?? expression).trim().split(/\s+/);
+    if (fields.length != CRON_FIELDS.length) {
+      throw new GardenaSchedulerError(`Invalid cron expression '${expression}', expected ${CRON_FIELDS.length} fields`);
+    }
+
+    [this.minutes, this.hours, this.days, this.months, this.weekdays] = fields.map((x, i) => {
+      return parseCronField(x, CRON_FIELDS[i], expression);
+    });
+    // Sunday is both 0 and 7
+    if (this.weekdays.delete(7)) {
+      this.weekdays.add(0);
+    }
+    this.anyDay = fields[2] == '*';
+    this.anyWeekday = fields[4] == '*';
+
+    if (!this.next(Moment())) {
+      throw new GardenaSchedulerError(`Cron expression '${expression}' never matches`);
+    }
+  }
+
+  // First matching minute after the given time, or undefined if there is none within 5 years
+  public next(after: Moment.Moment): Moment.Moment {
+    const date = after.clone().startOf('minute').add(1, 'minute');
+    const limit = after.clone().add(5, 'years');
+
+    while (date.isBefore(limit)) {
+      if (!this.months.has(date.month() + 1)) {
+        date.add(1, 'month').startOf('month');
+      } else if (!this.matchesDay(date)) {
+        date.add(1, 'day').startOf('day');
+      } else if (!this.hours.has(date.hour())) {
+        date.add(1, 'hour').startOf('hour');
+      } else if (!this.minutes.has(date.minute())) {
+        date.add(1, 'minute');
+      } else {
+        return date;
+      }
+    }
+
+    return undefined;
+  }
+
+  // Like cron, a day matches either field when both day of month and day of week are restricted
+  private matchesDay(date: Moment.Moment): boolean {
+    const day = this.days.has(date.date());
+    const weekday = this.weekdays.has(date.day());
+    if (this.anyDay && this.anyWeekday) {
+      return true;
+    } else if (this.anyDay) {
+      return weekday;
+    } else if (this.anyWeekday) {
+      return day;
+    }
+    return day || weekday;
+  }
+}
+
+export class GardenaScheduler extends EventEmitter {
+  public readonly connection: GardenaConnection;
+  public readonly store: GardenaSchedulerStore;
+  public missedRunPolicy: GardenaMissedRunPolicy;
+  public missedRunGrace: number;
+  private jobMap = new Map<string, GardenaScheduledJob>();
+  private crons = new Map<string, GardenaCronExpression>();
+  private started = false;
+  private timer: NodeJS.Timeout;
+  private loading: Promise<void>;
+
+  public constructor(connection: GardenaConnection, config: GardenaSchedulerConfig = {}) {
+    super();
+
+    this.connection = connection;
+    this.store = config.store ?? new GardenaMemorySchedulerStore();
+    this.missedRunPolicy = config.missedRunPolicy ?? GardenaMissedRunPolicy.Skip;
+    this.missedRunGrace = config.missedRunGrace ?? 60;
+  }
+
+  public get jobs(): GardenaScheduledJob[] {
+    return [...this.jobMap.values()];
+  }
+
+  public getJob(id: string): GardenaScheduledJob | undefined {
+    return this.jobMap.get(id);
+  }
+
+  // Load the persisted jobs, handle the runs missed while stopped and wait for the next ones
+  public async start(): Promise<void> {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+
+    try {
+      await this.load();
+    } catch (e) {
+      this.started = false;
+      throw e;
+    }
+    await this.runDueJobs();
+  }
+
+  public stop(): void {
+    this.started = false;
+    clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  public async addJob(definition: GardenaScheduledJobDefinition): Promise<GardenaScheduledJob> {
+    const cron = validateJob(definition);
+    await this.load();
+    const id = definition.id ?? crypto.randomUUID();
+
+    let nextRunAt: Moment.Moment;
+    if (cron) {
+      nextRunAt = cron.next(Moment());
+    } else {
+      nextRunAt = Moment(definition.at, Moment.ISO_8601);
+      if (nextRunAt.isBefore(Moment())) {
+        throw new GardenaSchedulerError(`Job '${id}' is scheduled in the past`);
+      }
+    }
+
+    const job: GardenaScheduledJob = { ...definition, id, nextRunAt: definition.enabled === false ? undefined : nextRunAt };
+    this.jobMap.set(id, job);
+    this.crons.set(id, cron);
+    await this.save();
+    this.schedule();
+
+    return job;
+  }
+
+  public async removeJob(id: string): Promise<boolean> {
+    await this.load();
+    if (!this.jobMap.delete(id)) {
+      return false;
+    }
+    this.crons.delete(id);
+    await this.save();
+    this.schedule();
+
+    return true;
+  }
+
+  // Runs missed while a job is disabled are not caught up
+  public async setJobEnabled(id: string, enabled: boolean): Promise<GardenaScheduledJob> {
+    await this.load();
+    const job = this.jobMap.get(id);
+    if (!job) {
+      throw new GardenaSchedulerError(`Unknown job '${id}'`);
+    }
+    if ((job.enabled !== false) == enabled) {
+      return job;
+    }
+
+    job.enabled = enabled;
+    if (!enabled) {
+      job.nextRunAt = undefined;
+    } else if (this.crons.get(id)) {
+      job.nextRunAt = this.crons.get(id).next(Moment());
+    } else {
+      const at = Moment(job.at, Moment.ISO_8601);
+      job.nextRunAt = at.isAfter(Moment()) ? at : undefined;
+    }
+    await this.save();
+    this.schedule();
+
+    return job;
+  }
+
+  public onRun(func: (run: GardenaScheduledRun) => void): this {
+    return this.on('run', func);
+  }
+
+  // Ignored stored jobs & failures to persist the jobs, which are logged when nothing listens
+  public onError(func: (error: Error) => void): this {
+    return this.on('error', func);
+  }
+
+  // Load the persisted jobs once, before any change would overwrite them
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.store.load().then((jobs) => {
+        for (const serialized of jobs) {
+          try {
+            this.restoreJob(serialized);
+          } catch (e) {
+            const error = new GardenaSchedulerError(`Ignoring invalid stored job '${serialized.id}': ${(e as Error).message}`, { cause: e });
+            reportError(this, this.connection.log, 'Failed to load scheduled jobs', error);
+          }
+        }
+      });
+
+      // Try again on the next call when the store failed
+      this.loading.catch(() => {
+        this.loading = undefined;
+      });
+    }
+    return this.loading;
+  }
+
+  private restoreJob(serialized: GardenaSerializedScheduledJob): void {
+    const { nextRunAt, lastRunAt, lastOutcome, ...definition } = serialized;
+    const cron = validateJob(definition as GardenaScheduledJobDefinition);
+
+    const job: GardenaScheduledJob = {
+      ...(definition as GardenaScheduledJobDefinition),
+      id: serialized.id,
+      nextRunAt: nextRunAt ? Moment(nextRunAt) : undefined,
+      lastRunAt: lastRunAt ? Moment(lastRunAt) : undefined,
+      lastOutcome: lastOutcome as GardenaScheduledRunOutcome
+    };
+    this.jobMap.set(job.id, job);
+    this.crons.set(job.id, cron);
+  }
+
+  private schedule(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    if (!this.started) {
+      return;
+    }
+
+    const next = Math.min(
+      ...this.jobs
+        .filter((x) => {
+          return x.nextRunAt;
+        })
+        .map((x) => {
+          return x.nextRunAt.valueOf();
+        })
+    );
+    if (isFinite(next)) {
+      this.timer = setTimeout(
+        () => {
+          this.runDueJobs().catch((e) => {
+            // E.g. the store failed, keep running the jobs
+            reportError(this, this.connection.log, 'Failed to run scheduled jobs', e);
+            this.schedule();
+          });
+        },
+        Math.min(Math.max(next - Date.now(), 0), MAX_TIMEOUT)
+      );
+    }
+  }
+
+  private async runDueJobs(): Promise<void> {
+    const now = Moment();
+    const runs: Promise<void>[] = [];
+
+    for (const job of this.jobs) {
+      if (!job.nextRunAt || job.nextRunAt.isAfter(now)) {
+        continue;
+      }
+
+      // Advance before running, so a crash during the run never repeats it; a catch-up runs once however many runs were missed
+      const scheduledAt = job.nextRunAt;
+      job.nextRunAt = this.crons.get(job.id)?.next(now);
+
+      const missed = now.diff(scheduledAt) > this.missedRunGrace * 1000;
+      if (missed && (job.missedRunPolicy ?? this.missedRunPolicy) == GardenaMissedRunPolicy.Skip) {
+        this.finish({ job, scheduledAt, startedAt: now, missed, outcome: GardenaScheduledRunOutcome.Skipped });
+      } else {
+        runs.push(this.run(job, scheduledAt, missed));
+      }
+    }
+
+    await this.save();
+    this.schedule();
+
+    // Persist the outcomes once all runs finished
+    if (runs.length) {
+      await Promise.all(runs);
+      await this.save();
+    }
+  }
+
+  private async run(job: GardenaScheduledJob, scheduledAt: Moment.Moment, missed: boolean): Promise<void> {
+    const startedAt = Moment();
+    let device: GardenaDevice;
+    try {
+      device = await this.connection.findDevice(job.device);
+      if (!device) {
+        throw new GardenaSchedulerError(`Unknown device '${job.device}'`);
+      }
+
+      const result = await runDeviceCommand(device, job.command, job.parameters ?? {});
+      this.finish({ job, device, scheduledAt, startedAt, missed, outcome: GardenaScheduledRunOutcome.Succeeded, result });
+    } catch (e) {
+      this.finish({ job, device, scheduledAt, startedAt, missed, outcome: GardenaScheduledRunOutcome.Failed, error: e as Error });
+    }
+  }
+
+  private finish(run: GardenaScheduledRun): void {
+    run.job.lastRunAt = run.startedAt;
+    run.job.lastOutcome = run.outcome;
+
+    // One-off jobs are done after their only run
+    if (!run.job.cron) {
+      this.jobMap.delete(run.job.id);
+      this.crons.delete(run.job.id);
+    }
+
+    this.emit('run', run);
+  }
+
+  private async save(): Promise<void> {
+    await this.store.save(
+      this.jobs.map((x) => {
+        return {
+          ...x,
+          nextRunAt: x.nextRunAt?.toISOString() ?? null,
+          lastRunAt: x.lastRunAt?.toISOString(),
+          lastOutcome: x.lastOutcome
+        };
+      })
+    );
+  }
+}
+
+function validateJob(definition: GardenaScheduledJobDefinition): GardenaCronExpression {
+  const name = definition.id ? `Job '${definition.id}'` : 'Job';
+  if (typeof definition.device !== 'string' || !definition.device) {
+    throw new GardenaSchedulerError(`${name} requires a device`);
+  }
+  if (!getAllDeviceCommands().includes(definition.command)) {
+    throw new GardenaSchedulerError(`${name} has unknown command '${definition.command}'`);
+  }
+  if (definition.missedRunPolicy !== undefined && !Object.values(GardenaMissedRunPolicy).includes(definition.missedRunPolicy)) {
+    throw new GardenaSchedulerError(`${name} has unknown missed run policy '${definition.missedRunPolicy}'`);
+  }
+  if ((definition.cron === undefined) == (definition.at === undefined)) {
+    throw new GardenaSchedulerError(`${name} requires either 'cron' or 'at'`);
+  }
+
+  if (definition.cron !== undefined) {
+    return new GardenaCronExpression(definition.cron);
+  }
+  if (!Moment(definition.at, Moment.ISO_8601).isValid()) {
+    throw new GardenaSchedulerError(`${name} has invalid date '${definition.at}'`);
+  }
+  return undefined;
+}
+
+function parseCronField(text: string, field: GardenaCronField, expression: string): Set<number> {
+  const values = new Set<number>();
+  const invalid = () => {
+    return new GardenaSchedulerError(`Invalid ${field.name} '${text}' in cron expression '${expression}'`);
+  };
+  const parseValue = (value: string) => {
+    const index = field.names?.indexOf(value.toLowerCase()) ?? -1;
+    const number = index >= 0 ? index + field.min : /^\d+$/.test(value) ? Number(value) : NaN;
+    if (!(number >= field.min && number <= field.max)) {
+      throw invalid();
+    }
+    return number;
+  };
+
+  for (const part of text.split(',')) {
+    const [range, stepText, ...rest] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (rest.length || !Number.isInteger(step) || step < 1) {
+      throw invalid();
+    }
+
+    let from = field.min;
+    let to = field.max;
+    if (range != '*') {
+      const [start, end, ...more] = range.split('-');
+      if (more.length) {
+        throw invalid();
+      }
+      from = parseValue(start);
+      // A single value with a step runs to the end of the range, like in cron
+      to = end !== undefined ? parseValue(end) : stepText !== undefined ? field.max : from;
+      if (from > to) {
+        throw invalid();
+      }
+    }
+
+    for (let value = from; value <= to; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
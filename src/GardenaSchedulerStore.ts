@@ -0,0 +1,81 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { GardenaDeviceCommandParameters } from './GardenaDeviceCommands.js';
+
+export type GardenaSerializedScheduledJob = {
+  id: string;
+  device: string; // Device id or name
+  command: string;
+  parameters?: GardenaDeviceCommandParameters;
+  cron?: string;
+  at?: string; // ISO 8601
+  missedRunPolicy?: string;
+  enabled?: boolean;
+  nextRunAt: string; // ISO 8601, or null once a one-off job ran
+  lastRunAt?: string; // ISO 8601
+  lastOutcome?: string;
+};
+
+export interface GardenaSchedulerStore {
+  load(): Promise<GardenaSerializedScheduledJob[]>;
+  save(jobs: GardenaSerializedScheduledJob[]): Promise<void>;
+}
+
+export class GardenaMemorySchedulerStore implements GardenaSchedulerStore {
+  private jobs: GardenaSerializedScheduledJob[] = [];
+
+  public async load(): Promise<GardenaSerializedScheduledJob[]> {
+    return this.jobs.map((x) => {
+      return { ...x };
+    });
+  }
+
+  public async save(jobs: GardenaSerializedScheduledJob[]): Promise<void> {
+    this.jobs = jobs.map((x) => {
+      return { ...x };
+    });
+  }
+}
+
+// Stores all jobs in a single JSON file
+export class GardenaFileSchedulerStore implements GardenaSchedulerStore {
+  public readonly filePath: string;
+  private writing: Promise<void> = Promise.resolve();
+
+  public constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  public async load(): Promise<GardenaSerializedScheduledJob[]> {
+    let text: string;
+    try {
+      text = await fs.readFile(this.filePath, 'utf8');
+    } catch (e) {
+      // No file yet, so start without jobs. Anything else (e.g. a corrupt file) would be overwritten on the next save
+      if ((e as NodeJS.ErrnoException).code == 'ENOENT') {
+        return [];
+      }
+      throw e;
+    }
+
+    const jobs = JSON.parse(text);
+    if (!Array.isArray(jobs)) {
+      throw new Error(`${this.filePath} doesn't contain a list of jobs`);
+    }
+    return jobs;
+  }
+
+  public async save(jobs: GardenaSerializedScheduledJob[]): Promise<void> {
+    // Serialize writes, so an older list never overwrites a newer one
+    const write = this.writing.then(async () => {
+      // Write to a temporary file first, so a crash never leaves a corrupt file behind
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tmpPath, JSON.stringify(jobs));
+      await fs.rename(tmpPath, this.filePath);
+    });
+    this.writing = write.catch(() => {});
+
+    return write;
+  }
+}
@@ -0,0 +1,83 @@
+import Moment from 'moment';
+import { GardenaDevice, GardenaRawDeviceAttributeJson } from './GardenaDevice.js';
+import { ApiOutput, GardenaConnection } from './GardenaConnection.js';
+import { toApiError } from './GardenaApiError.js';
+import { createCommandRequest } from './GardenaApiParser.js';
+import { GardenaSensorUnit } from './Enums.js';
+
+enum GardenaSensorCommand {
+  Measure = 'MEASURE'
+}
+
+export type GardenaSensorReading = {
+  value: number;
+  unit: GardenaSensorUnit;
+  ts?: Moment.Moment;
+};
+
+export class GardenaSensor extends GardenaDevice {
+  private serviceId: string;
+  public soilHumidity: number;
+  public soilHumidityTs: Moment.Moment;
+  public soilTemperature: number;
+  public soilTemperatureTs: Moment.Moment;
+  public ambientTemperature: number;
+  public ambientTemperatureTs: Moment.Moment;
+  public lightIntensity: number;
+  public lightIntensityTs: Moment.Moment;
+
+  public constructor(connection: GardenaConnection, id: string, serviceId: string, attributes: GardenaRawDeviceAttributeJson[]) {
+    super(connection, id);
+
+    this.serviceId = serviceId;
+    this.processAttributes(attributes);
+  }
+
+  public async measure(): Promise<void> {
+    await this.command(GardenaSensorCommand.Measure);
+  }
+
+  private async command(command: GardenaSensorCommand): Promise<void> {
+    try {
+      const body = createCommandRequest('SENSOR_CONTROL', { command });
+
+      // Request
+      await this.connection.apiRequest(`${this.connection.apiBaseUrl}/command/${this.serviceId}`, null, 'PUT', body, 202, ApiOutput.Text);
+    } catch (e) {
+      throw toApiError(e, `Couldn't execute SENSOR_CONTROL command`);
+    }
+  }
+
+  // Returns null when the sensor model doesn't measure the value
+  private reading(value: number, unit: GardenaSensorUnit, ts: Moment.Moment): GardenaSensorReading {
+    if (value === undefined || value === null) {
+      return null;
+    }
+
+    return { value, unit, ts };
+  }
+
+  public get soilHumidityReading(): GardenaSensorReading {
+    return this.reading(this.soilHumidity, GardenaSensorUnit.Percent, this.soilHumidityTs);
+  }
+
+  public get soilTemperatureReading(): GardenaSensorReading {
+    return this.reading(this.soilTemperature, GardenaSensorUnit.Celsius, this.soilTemperatureTs);
+  }
+
+  public get ambientTemperatureReading(): GardenaSensorReading {
+    return this.reading(this.ambientTemperature, GardenaSensorUnit.Celsius, this.ambientTemperatureTs);
+  }
+
+  public get lightIntensityReading(): GardenaSensorReading {
+    return this.reading(this.lightIntensity, GardenaSensorUnit.Lux, this.lightIntensityTs);
+  }
+
+  public get attributeNames(): string[] {
+    return [...super.attributeNames, 'soilHumidity', 'soilTemperature', 'ambientTemperature', 'lightIntensity'];
+  }
+
+  public get ids(): string[] {
+    return [this.id, this.serviceId];
+  }
+}
@@ -0,0 +1,259 @@
+import { GardenaDeviceBatteryState, GardenaDeviceRfLinkState, GardenaMowerActivity, GardenaMowerErrorCode, GardenaMowerState } from './Enums.js';
+import { en } from './locales/en.js';
+import { nl } from './locales/nl.js';
+import { de } from './locales/de.js';
+
+export enum GardenaStatusSeverity {
+  Info = 'info',
+  Warning = 'warning',
+  Critical = 'critical'
+}
+
+export enum GardenaStatusCategory {
+  MowerError = 'mowerError',
+  MowerActivity = 'mowerActivity',
+  MowerState = 'mowerState',
+  BatteryState = 'batteryState',
+  RfLinkState = 'rfLinkState'
+}
+
+export type GardenaStatusDefinition = {
+  severity: GardenaStatusSeverity;
+  interventionRequired: boolean;
+};
+
+export type GardenaStatusText = {
+  description: string;
+  action?: string; // Suggested action, if any
+};
+
+export type GardenaStatusTranslations = {
+  unknown?: GardenaStatusText; // Fallback for codes without a text, '{code}' is replaced by the code
+} & { [category in GardenaStatusCategory]?: { [code: string]: GardenaStatusText } };
+
+export type GardenaStatusDescription = GardenaStatusDefinition &
+  GardenaStatusText & {
+    category: GardenaStatusCategory;
+    code: string;
+    locale: string; // Locale the text was taken from
+    known: boolean; // False for codes the catalog doesn't know (yet), e.g. added to the API later (see define)
+  };
+
+export type GardenaStatusCatalogConfig = {
+  locale?: string; // Default locale, e.g. 'nl' or 'de-AT' (default 'en')
+};
+
+const FALLBACK_LOCALE = 'en';
+
+type Definitions = { [code: string]: [severity: GardenaStatusSeverity, interventionRequired: boolean] };
+
+const { Info, Warning, Critical } = GardenaStatusSeverity;
+
+const MOWER_ERROR_DEFINITIONS: Definitions = {
+  [GardenaMowerErrorCode.NoMessage]: [Info, false],
+  [GardenaMowerErrorCode.OutsideWorkingArea]: [Warning, true],
+  [GardenaMowerErrorCode.NoLoopSignal]: [Critical, true],
+  [GardenaMowerErrorCode.WrongLoopSignal]: [Critical, true],
+  [GardenaMowerErrorCode.LoopSensorProblemFront]: [Critical, true],
+  [GardenaMowerErrorCode.LoopSensorProblemRear]: [Critical, true],
+  [GardenaMowerErrorCode.LoopSensorProblemLeft]: [Critical, true],
+  [GardenaMowerErrorCode.LoopSensorProblemRight]: [Critical, true],
+  [GardenaMowerErrorCode.WrongPinCode]: [Warning, true],
+  [GardenaMowerErrorCode.Trapped]: [Warning, true],
+  [GardenaMowerErrorCode.UpsideDown]: [Critical, true],
+  [GardenaMowerErrorCode.EmptyBatter]: [Warning, true],
+  [GardenaMowerErrorCode.NoDrive]: [Critical, true],
+  [GardenaMowerErrorCode.TemporarilyLifted]: [Info, false],
+  [GardenaMowerErrorCode.Lifted]: [Warning, true],
+  [GardenaMowerErrorCode.StuckInChargingStation]: [Warning, true],
+  [GardenaMowerErrorCode.ChargingStationBlocked]: [Warning, true],
+  [GardenaMowerErrorCode.CollisionSensorProblemRear]: [Critical, true],
+  [GardenaMowerErrorCode.CollisionSensorProblemFront]: [Critical, true],
+  [GardenaMowerErrorCode.WheelMotorBlockedRight]: [Warning, true],
+  [GardenaMowerErrorCode.WheelMotorBlockedLeft]: [Warning, true],
+  [GardenaMowerErrorCode.WheelDriveProblemRight]: [Critical, true],
+  [GardenaMowerErrorCode.WheelDriveProblemLeft]: [Critical, true],
+  [GardenaMowerErrorCode.CuttingMotorDriveDefect]: [Critical, true],
+  [GardenaMowerErrorCode.CuttingSystemBlocked]: [Warning, true],
+  [GardenaMowerErrorCode.InvalidSubDeviceCombination]: [Critical, true],
+  [GardenaMowerErrorCode.MemoryCircuitProblem]: [Critical, true],
+  [GardenaMowerErrorCode.ChargingSystemProblem]: [Critical, true],
+  [GardenaMowerErrorCode.StopButtonProblem]: [Critical, true],
+  [GardenaMowerErrorCode.TitleSensorProblem]: [Critical, true],
+  [GardenaMowerErrorCode.Tilted]: [Warning, true],
+  [GardenaMowerErrorCode.WheelMotorOverloadedRight]: [Warning, true],
+  [GardenaMowerErrorCode.WheelMotorOverloadedLeft]: [Warning, true],
+  [GardenaMowerErrorCode.ChargingCurrentTooHigh]: [Critical, true],
+  [GardenaMowerErrorCode.ElectricProblem]: [Critical, true],
+  [GardenaMowerErrorCode.CuttingMotorProblem]: [Critical, true],
+  [GardenaMowerErrorCode.LimitedCuttingHeightRange]: [Warning, true],
+  [GardenaMowerErrorCode.CuttingHeightProblemDrive]: [Critical, true],
+  [GardenaMowerErrorCode.CuttingHeightProblemCurrent]: [Critical, true],
+  [GardenaMowerErrorCode.CuttingHeightProblemData]: [Critical, true],
+  [GardenaMowerErrorCode.CuttingHeightBlocked]: [Warning, true],
+  [GardenaMowerErrorCode.CuttingHeightProblem]: [Critical, true],
+  [GardenaMowerErrorCode.BatteryProblem]: [Critical, true],
+  [GardenaMowerErrorCode.TooManyBatteries]: [Critical, true],
+  [GardenaMowerErrorCode.AlarmMowerSwitchedOff]: [Critical, true],
+  [GardenaMowerErrorCode.AlarmMowerStopped]: [Critical, true],
+  [GardenaMowerErrorCode.AlarmMowerLifted]: [Critical, true],
+  [GardenaMowerErrorCode.AlarmMowerTilted]: [Critical, true],
+  [GardenaMowerErrorCode.AlarmMowerInMotion]: [Critical, true],
+  [GardenaMowerErrorCode.AlarmOutsideGeofence]: [Critical, true],
+  [GardenaMowerErrorCode.Slipped]: [Warning, true],
+  [GardenaMowerErrorCode.InvalidBatteryCombination]: [Critical, true],
+  [GardenaMowerErrorCode.Uninitialised]: [Warning, true],
+  [GardenaMowerErrorCode.WaitUpdating]: [Info, false],
+  [GardenaMowerErrorCode.WaitPowerUp]: [Info, false],
+  [GardenaMowerErrorCode.OffDisabled]: [Warning, true],
+  [GardenaMowerErrorCode.OffHatchOpen]: [Warning, true],
+  [GardenaMowerErrorCode.OffHatchClosed]: [Warning, true],
+  [GardenaMowerErrorCode.ParkedDailyLimitReached]: [Info, false]
+};
+
+const MOWER_ACTIVITY_DEFINITIONS: Definitions = {
+  [GardenaMowerActivity.Paused]: [Info, false],
+  [GardenaMowerActivity.Cutting]: [Info, false],
+  [GardenaMowerActivity.CuttingManual]: [Info, false],
+  [GardenaMowerActivity.Searching]: [Info, false],
+  [GardenaMowerActivity.Leaving]: [Info, false],
+  [GardenaMowerActivity.Charging]: [Info, false],
+  [GardenaMowerActivity.Parked]: [Info, false],
+  [GardenaMowerActivity.ParkedManual]: [Info, false],
+  [GardenaMowerActivity.ParkedInsufficientGrassHeight]: [Info, false],
+  [GardenaMowerActivity.None]: [Warning, false]
+};
+
+const MOWER_STATE_DEFINITIONS: Definitions = {
+  [GardenaMowerState.Ok]: [Info, false],
+  [GardenaMowerState.Warning]: [Warning, true],
+  [GardenaMowerState.Error]: [Critical, true],
+  [GardenaMowerState.Unavailable]: [Warning, true]
+};
+
+const BATTERY_STATE_DEFINITIONS: Definitions = {
+  [GardenaDeviceBatteryState.Ok]: [Info, false],
+  [GardenaDeviceBatteryState.Low]: [Warning, false],
+  [GardenaDeviceBatteryState.ReplaceNow]: [Critical, true],
+  [GardenaDeviceBatteryState.OutOfOperation]: [Critical, true],
+  [GardenaDeviceBatteryState.Charging]: [Info, false],
+  [GardenaDeviceBatteryState.NoBattery]: [Info, false],
+  [GardenaDeviceBatteryState.Unknown]: [Info, false]
+};
+
+const RF_LINK_STATE_DEFINITIONS: Definitions = {
+  [GardenaDeviceRfLinkState.Online]: [Info, false],
+  [GardenaDeviceRfLinkState.Offline]: [Critical, true],
+  [GardenaDeviceRfLinkState.Unknown]: [Warning, false]
+};
+
+const DEFINITIONS: { [category in GardenaStatusCategory]: Definitions } = {
+  [GardenaStatusCategory.MowerError]: MOWER_ERROR_DEFINITIONS,
+  [GardenaStatusCategory.MowerActivity]: MOWER_ACTIVITY_DEFINITIONS,
+  [GardenaStatusCategory.MowerState]: MOWER_STATE_DEFINITIONS,
+  [GardenaStatusCategory.BatteryState]: BATTERY_STATE_DEFINITIONS,
+  [GardenaStatusCategory.RfLinkState]: RF_LINK_STATE_DEFINITIONS
+};
+
+// Used for codes the catalog doesn't know: unknown errors are assumed to need a look
+const UNKNOWN_DEFINITIONS: { [category in GardenaStatusCategory]: GardenaStatusDefinition } = {
+  [GardenaStatusCategory.MowerError]: { severity: Warning, interventionRequired: true },
+  [GardenaStatusCategory.MowerActivity]: { severity: Info, interventionRequired: false },
+  [GardenaStatusCategory.MowerState]: { severity: Warning, interventionRequired: false },
+  [GardenaStatusCategory.BatteryState]: { severity: Info, interventionRequired: false },
+  [GardenaStatusCategory.RfLinkState]: { severity: Warning, interventionRequired: false }
+};
+
+export class GardenaStatusCatalog {
+  public locale: string;
+  private definitions = new Map<GardenaStatusCategory, Map<string, GardenaStatusDefinition>>();
+  private translations = new Map<string, GardenaStatusTranslations>();
+
+  public constructor(config: GardenaStatusCatalogConfig = {}) {
+    this.locale = config.locale ?? FALLBACK_LOCALE;
+
+    // Built-in codes & locales
+    for (const category of Object.values(GardenaStatusCategory)) {
+      this.definitions.set(category, new Map());
+      for (const [code, [severity, interventionRequired]] of Object.entries(DEFINITIONS[category])) {
+        this.define(category, code, { severity, interventionRequired });
+      }
+    }
+    this.registerLocale('en', en);
+    this.registerLocale('nl', nl);
+    this.registerLocale('de', de);
+  }
+
+  public get locales(): string[] {
+    return [...this.translations.keys()];
+  }
+
+  // Adds a locale, or adds & overrides texts of a registered one. Missing texts fall back to English
+  public registerLocale(locale: string, translations: GardenaStatusTranslations): this {
+    const key = locale.toLowerCase();
+    const merged: GardenaStatusTranslations = { ...this.translations.get(key) };
+    for (const [category, texts] of Object.entries(translations)) {
+      merged[category] = category == 'unknown' ? texts : { ...merged[category], ...texts };
+    }
+    this.translations.set(key, merged);
+
+    return this;
+  }
+
+  // Adds a code unknown to the catalog, or overrides the severity of a known one
+  public define(category: GardenaStatusCategory, code: string, definition: GardenaStatusDefinition): this {
+    this.definitions.get(category).set(code, definition);
+    return this;
+  }
+
+  public describe(category: GardenaStatusCategory, code: string, locale = this.locale): GardenaStatusDescription {
+    const definition = this.definitions.get(category)?.get(code);
+
+    // Try the exact locale, its language and then the default & fallback locales
+    const candidates = [locale, locale.split(/[-_]/)[0], this.locale, this.locale.split(/[-_]/)[0], FALLBACK_LOCALE].map((x) => {
+      return x.toLowerCase();
+    });
+    for (const candidate of candidates) {
+      const text = this.translations.get(candidate)?.[category]?.[code];
+      if (text) {
+        return { category, code, locale: candidate, known: !!definition, ...(definition ?? UNKNOWN_DEFINITIONS[category]), ...text };
+      }
+    }
+
+    // No text, e.g. for a code added to the API later
+    const candidate = candidates.find((x) => {
+      return this.translations.get(x)?.unknown;
+    });
+    const unknown = this.translations.get(candidate).unknown;
+    return {
+      category,
+      code,
+      locale: candidate,
+      known: !!definition,
+      ...(definition ?? UNKNOWN_DEFINITIONS[category]),
+      description: unknown.description.replace('{code}', code),
+      action: unknown.action?.replace('{code}', code)
+    };
+  }
+
+  // No error (e.g. GardenaMower.error being null) is described as NO_MESSAGE
+  public describeMowerError(code: GardenaMowerErrorCode | string, locale?: string): GardenaStatusDescription {
+    return this.describe(GardenaStatusCategory.MowerError, code ?? GardenaMowerErrorCode.NoMessage, locale);
+  }
+
+  public describeMowerActivity(activity: GardenaMowerActivity | string, locale?: string): GardenaStatusDescription {
+    return this.describe(GardenaStatusCategory.MowerActivity, activity, locale);
+  }
+
+  public describeMowerState(state: GardenaMowerState | string, locale?: string): GardenaStatusDescription {
+    return this.describe(GardenaStatusCategory.MowerState, state, locale);
+  }
+
+  public describeBatteryState(state: GardenaDeviceBatteryState | string, locale?: string): GardenaStatusDescription {
+    return this.describe(GardenaStatusCategory.BatteryState, state, locale);
+  }
+
+  public describeRfLinkState(state: GardenaDeviceRfLinkState | string, locale?: string): GardenaStatusDescription {
+    return this.describe(GardenaStatusCategory.RfLinkState, state, locale);
+  }
+}
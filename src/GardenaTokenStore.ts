@@ -0,0 +1,73 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { GardenaSerializedAccessToken } from './GardenaAccessToken.js';
+
+export interface GardenaTokenStore {
+  load(clientId: string): Promise<GardenaSerializedAccessToken | undefined>;
+  save(clientId: string, token: GardenaSerializedAccessToken): Promise<void>;
+  clear(clientId: string): Promise<void>;
+}
+
+export class GardenaMemoryTokenStore implements GardenaTokenStore {
+  private tokens = new Map<string, GardenaSerializedAccessToken>();
+
+  public async load(clientId: string): Promise<GardenaSerializedAccessToken | undefined> {
+    return this.tokens.get(clientId);
+  }
+
+  public async save(clientId: string, token: GardenaSerializedAccessToken): Promise<void> {
+    this.tokens.set(clientId, token);
+  }
+
+  public async clear(clientId: string): Promise<void> {
+    this.tokens.delete(clientId);
+  }
+}
+
+// Stores tokens for all client IDs in a single JSON file
+export class GardenaFileTokenStore implements GardenaTokenStore {
+  public readonly filePath: string;
+
+  public constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  public async load(clientId: string): Promise<GardenaSerializedAccessToken | undefined> {
+    const tokens = await this.read();
+    return tokens[clientId];
+  }
+
+  public async save(clientId: string, token: GardenaSerializedAccessToken): Promise<void> {
+    const tokens = await this.read();
+    tokens[clientId] = token;
+    await this.write(tokens);
+  }
+
+  public async clear(clientId: string): Promise<void> {
+    const tokens = await this.read();
+    if (tokens[clientId]) {
+      delete tokens[clientId];
+      await this.write(tokens);
+    }
+  }
+
+  private async read(): Promise<{ [clientId: string]: GardenaSerializedAccessToken }> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch (e) {
+      // No file yet, so start from scratch. Anything else (e.g. a corrupt file) would be overwritten on the next save
+      if ((e as NodeJS.ErrnoException).code == 'ENOENT') {
+        return {};
+      }
+      throw e;
+    }
+  }
+
+  private async write(tokens: { [clientId: string]: GardenaSerializedAccessToken }): Promise<void> {
+    // Write to a temporary file first, so a crash never leaves a corrupt file behind. The file contains secrets, so only the owner can read it
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(tokens, null, 2), { mode: 0o600 });
+    await fs.rename(tmpPath, this.filePath);
+  }
+}
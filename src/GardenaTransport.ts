@@ -0,0 +1,82 @@
+import fetch, { RequestInfo, RequestInit, Response } from 'node-fetch';
+import WebSocket from 'ws';
+import { Agent } from 'http';
+import { REQUEST_TIMEOUT } from './config.js';
+import { GardenaLog, GardenaLogLevel, redactBody, redactHeaders, redactUrl } from './GardenaLogger.js';
+
+export type GardenaFetch = (url: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
+export type GardenaWebSocketFactory = (url: string, options: WebSocket.ClientOptions) => WebSocket;
+
+export type GardenaTransportConfig = {
+  fetch?: GardenaFetch;
+  webSocketFactory?: GardenaWebSocketFactory;
+  agent?: Agent; // E.g. a proxy agent, used for both HTTP requests and websockets
+  timeout?: number; // Request timeout in milliseconds, including reading the response body
+};
+
+export class GardenaTransport {
+  private fetchImpl: GardenaFetch;
+  private webSocketFactory: GardenaWebSocketFactory;
+  private agent: Agent;
+  public readonly timeout: number;
+  public readonly log: GardenaLog;
+
+  public constructor(config: GardenaTransportConfig = {}, log = new GardenaLog()) {
+    this.fetchImpl = config.fetch ?? fetch;
+    this.webSocketFactory =
+      config.webSocketFactory ??
+      ((url, options) => {
+        return new WebSocket(url, options);
+      });
+    this.agent = config.agent;
+    this.timeout = config.timeout ?? REQUEST_TIMEOUT;
+    this.log = log;
+  }
+
+  public async fetch(url: string | URL, init: RequestInit = {}): Promise<Response> {
+    // Abort the request when it takes too long
+    const controller = new AbortController();
+    const timeout = setTimeout(() => {
+      controller.abort();
+    }, this.timeout);
+
+    // Trace requests, without the credentials they hold
+    const method = init.method ?? 'GET';
+    const startedAt = Date.now();
+    const trace = this.log.isLevelEnabled(GardenaLogLevel.Debug);
+    if (trace) {
+      this.log.debug(`Request ${method} ${redactUrl(url)}`, { headers: redactHeaders(init.headers), body: redactBody(init.body) });
+    }
+
+    try {
+      const res = await this.fetchImpl(url, {
+        ...init,
+        agent: init.agent ?? this.agent,
+        signal: controller.signal
+      });
+
+      // Read the body while the timeout still runs, so a stalled body is aborted too
+      const body = Buffer.from(await res.arrayBuffer());
+      if (trace) {
+        this.log.debug(`Response ${res.status} on ${method} ${redactUrl(url)}`, { duration: Date.now() - startedAt });
+      }
+      return new Response(body.length ? body : null, {
+        status: res.status,
+        statusText: res.statusText,
+        headers: res.headers
+      });
+    } catch (e) {
+      if (trace) {
+        this.log.debug(`No response on ${method} ${redactUrl(url)}`, { duration: Date.now() - startedAt, error: (e as Error).message });
+      }
+      throw e;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  public createWebSocket(url: string): WebSocket {
+    this.log.debug(`Opening websocket ${redactUrl(url)}`);
+    return this.webSocketFactory(url, { agent: this.agent, handshakeTimeout: this.timeout });
+  }
+}
@@ -0,0 +1,112 @@
+import Moment from 'moment';
+import { GardenaDevice, GardenaDeviceChange, GardenaRawDeviceAttributeJson } from './GardenaDevice.js';
+import { ApiOutput, GardenaConnection } from './GardenaConnection.js';
+import { toApiError } from './GardenaApiError.js';
+import { createCommandRequest } from './GardenaApiParser.js';
+import { GardenaValveState, GardenaValveActivity, GardenaValveErrorCode } from './Enums.js';
+
+enum GardenaValveCommand {
+  Start = 'START_SECONDS_TO_OVERRIDE',
+  StopUntilNextTask = 'STOP_UNTIL_NEXT_TASK',
+  Pause = 'PAUSE',
+  Unpause = 'UNPAUSE'
+}
+
+export class GardenaValve extends GardenaDevice {
+  public readonly serviceId: string;
+  public valveName: string; // Name of the VALVE service itself
+  public valveNameTs: Moment.Moment;
+  private ofIrrigationControl: boolean;
+  public state: GardenaValveState;
+  public stateTs: Moment.Moment;
+  public activity: GardenaValveActivity;
+  public activityTs: Moment.Moment;
+  public duration: number;
+  public durationTs: Moment.Moment;
+  public lastErrorCode: GardenaValveErrorCode;
+  public lastErrorCodeTs: Moment.Moment;
+
+  public constructor(
+    connection: GardenaConnection,
+    id: string,
+    serviceId: string,
+    attributes: GardenaRawDeviceAttributeJson[],
+    ofIrrigationControl = false
+  ) {
+    super(connection, id);
+
+    this.serviceId = serviceId;
+    this.ofIrrigationControl = ofIrrigationControl;
+    this.processAttributes(attributes);
+  }
+
+  public processAttributes(attributes: GardenaRawDeviceAttributeJson[]): GardenaDeviceChange[] {
+    const changes = super.processAttributes(attributes);
+
+    // Valves of an irrigation control have no COMMON service, so are named by their VALVE service
+    const name = attributes['name'];
+    if (name !== undefined) {
+      const fields = this.ofIrrigationControl ? ['valveName', 'name'] : ['valveName'];
+      for (const field of fields) {
+        const oldValue = this[field];
+        this[field] = name.value;
+        if (name.ts) {
+          this[`${field}Ts`] = name.ts;
+        }
+        if (oldValue !== name.value) {
+          changes.push({ field, oldValue, newValue: name.value, ts: name.ts ?? Moment() });
+        }
+      }
+    }
+
+    return changes;
+  }
+
+  public async openFor(minutes: number): Promise<void> {
+    await this.command(GardenaValveCommand.Start, { seconds: minutes * 60 });
+  }
+
+  public async close(): Promise<void> {
+    await this.command(GardenaValveCommand.StopUntilNextTask);
+  }
+
+  public async pauseSchedule(until?: Moment.Moment | Date): Promise<void> {
+    await this.command(GardenaValveCommand.Pause, until ? { until: Moment(until).toISOString() } : undefined);
+  }
+
+  public async resumeSchedule(): Promise<void> {
+    await this.command(GardenaValveCommand.Unpause);
+  }
+
+  private async command(command: GardenaValveCommand, extraAttributes?: { [key: string]: unknown }): Promise<void> {
+    try {
+      const body = createCommandRequest('VALVE_CONTROL', { command, ...extraAttributes });
+
+      // Request
+      await this.connection.apiRequest(`${this.connection.apiBaseUrl}/command/${this.serviceId}`, null, 'PUT', body, 202, ApiOutput.Text);
+    } catch (e) {
+      throw toApiError(e, `Couldn't execute VALVE_CONTROL command`);
+    }
+  }
+
+  public get isOpen(): boolean {
+    return this.activity == GardenaValveActivity.ManualWatering || this.activity == GardenaValveActivity.ScheduledWatering;
+  }
+
+  public get error(): GardenaValveErrorCode {
+    // If currently in warning/error state, return the latest known error
+    if ((this.state == GardenaValveState.Error || this.state == GardenaValveState.Warning) && this.lastErrorCode) {
+      return this.lastErrorCode;
+    }
+
+    return null;
+  }
+
+  public get attributeNames(): string[] {
+    return [...super.attributeNames, 'serviceId', 'valveName', 'state', 'activity', 'duration', 'lastErrorCode'];
+  }
+
+  public get ids(): string[] {
+    return [this.id, this.serviceId];
+  }
+}
@@ -0,0 +1,423 @@
+#!/usr/bin/env node
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { parseArgs } from 'util';
+import { GardenaConnection, GardenaConnectionConfig } from './GardenaConnection.js';
+import { GardenaLocation } from './GardenaLocation.js';
+import { GardenaDevice, GardenaDeviceChange } from './GardenaDevice.js';
+import { GardenaMower, GardenaMowerCommandOptions, GardenaMowerCommandResult } from './GardenaMower.js';
+import { GardenaIrrigationControl } from './GardenaIrrigationControl.js';
+import { GardenaFileTokenStore } from './GardenaTokenStore.js';
+
+const USAGE = `Usage: gardena [options] <command> [arguments]
+
+Commands:
+  locations                       List the locations of the account
+  devices                         List the devices of all locations
+  status <device>                 Show the full status of a device
+  start <mower> --minutes <n>     Start mowing for the given amount of minutes
+  park <mower>                    Park until further notice
+  park-until-next-task <mower>    Park until the next scheduled task
+  resume <mower>                  Resume the schedule
+  watch                           Stream the realtime updates of all locations
+
+Devices are selected by id or name. The mower can be omitted when there's just one.
+
+Options:
+  --location <id>     Limit to a single location (id or name)
+  --config <path>     Config file (default ~/.config/gardena/config.json, or $GARDENA_CONFIG)
+  --minutes <n>       Duration for the start command
+  --wait              Wait until the mower confirms a command
+  --timeout <s>       Seconds to wait for confirmation (default 60)
+  --json              Output JSON (one object per line for watch)
+  -h, --help          Show this help
+
+Credentials are read from $GARDENA_CLIENT_ID and $GARDENA_CLIENT_SECRET, or from the config file:
+  { "clientId": "...", "clientSecret": "...", "tokenFile": "..." }`;
+
+const DEFAULT_CONFIG_PATH = path.join(os.homedir(), '.config', 'gardena', 'config.json');
+const DEFAULT_TOKEN_PATH = path.join(os.homedir(), '.config', 'gardena', 'token.json');
+
+// Device fields shown by the status command, when the device has them
+const STATUS_FIELDS = [
+  'state',
+  'activity',
+  'error',
+  'operatingHours',
+  'batteryLevel',
+  'batteryState',
+  'rfLinkLevel',
+  'rfLinkState',
+  'operatingMode',
+  'flowRate',
+  'pressure',
+  'soilHumidity',
+  'soilTemperature',
+  'ambientTemperature',
+  'lightIntensity'
+];
+
+type CliConfig = Partial<GardenaConnectionConfig> & {
+  tokenFile?: string; // Where the access token is kept between runs
+};
+
+type CliOptions = {
+  location?: string;
+  config?: string;
+  minutes?: string;
+  wait?: boolean;
+  timeout?: string;
+  json?: boolean;
+  help?: boolean;
+};
+
+class GardenaCliError extends Error {}
+
+async function main(): Promise<void> {
+  let parsed: { values: CliOptions; positionals: string[] };
+  try {
+    parsed = parseArgs({
+      allowPositionals: true,
+      options: {
+        location: { type: 'string' },
+        config: { type: 'string' },
+        minutes: { type: 'string' },
+        wait: { type: 'boolean' },
+        timeout: { type: 'string' },
+        json: { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' }
+      }
+    });
+  } catch (e) {
+    return usage((e as Error).message);
+  }
+
+  const options = parsed.values;
+  const [command, ...args] = parsed.positionals;
+  if (options.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+
+  const gardena = new GardenaConnection(await loadConfig(options.config));
+  try {
+    switch (command) {
+      case 'locations':
+        return await listLocations(gardena, options);
+      case 'devices':
+        return await listDevices(gardena, options);
+      case 'status':
+        return await showStatus(gardena, args[0], options);
+      case 'start':
+      case 'park':
+      case 'park-until-next-task':
+      case 'resume':
+        return await commandMower(gardena, command, args[0], options);
+      case 'watch':
+        return await watch(gardena, options);
+      default:
+        return usage(`Unknown command '${command}'`);
+    }
+  } finally {
+    // Keep the token for the next run
+    await gardena.close(false);
+  }
+}
+
+async function loadConfig(configPath?: string): Promise<GardenaConnectionConfig> {
+  const filePath = configPath ?? process.env.GARDENA_CONFIG ?? DEFAULT_CONFIG_PATH;
+
+  // Read config file, which is optional unless explicitly provided
+  let config: CliConfig = {};
+  try {
+    config = JSON.parse(await fs.readFile(filePath, 'utf8'));
+  } catch (e) {
+    if (configPath || process.env.GARDENA_CONFIG || (e as NodeJS.ErrnoException).code != 'ENOENT') {
+      throw new GardenaCliError(`Couldn't read config file ${filePath}: ${(e as Error).message}`);
+    }
+  }
+
+  // Environment takes precedence
+  const clientId = process.env.GARDENA_CLIENT_ID ?? config.clientId;
+  const clientSecret = process.env.GARDENA_CLIENT_SECRET ?? config.clientSecret;
+  if (!clientId || !clientSecret) {
+    throw new GardenaCliError(`No credentials found. Set GARDENA_CLIENT_ID and GARDENA_CLIENT_SECRET, or provide them in ${filePath}`);
+  }
+
+  const { tokenFile, ...connectionConfig } = config;
+  return {
+    ...connectionConfig,
+    clientId,
+    clientSecret,
+    tokenStore: new GardenaFileTokenStore(tokenFile ?? DEFAULT_TOKEN_PATH),
+    backgroundTokenRefresh: false
+  };
+}
+
+async function listLocations(gardena: GardenaConnection, options: CliOptions): Promise<void> {
+  const locations = await gardena.getLocations();
+  const rows = locations.map((x) => {
+    return { id: x.id, name: x.name };
+  });
+
+  if (options.json) {
+    return printJson(rows);
+  }
+  printTable(rows);
+}
+
+async function listDevices(gardena: GardenaConnection, options: CliOptions): Promise<void> {
+  const devices = await gardena.getDevices(await selectLocation(gardena, options.location));
+  const rows = devices.map((x) => {
+    const status = describeDevice(x);
+    return { id: status.id, type: status.type, name: status.name, state: status.state ?? '', activity: status.activity ?? '' };
+  });
+
+  if (options.json) {
+    return printJson(devices.map(describeDevice));
+  }
+  printTable(rows);
+}
+
+async function showStatus(gardena: GardenaConnection, selector: string, options: CliOptions): Promise<void> {
+  if (!selector) {
+    return usage('Missing device');
+  }
+  const device = findDevice(await gardena.getDevices(await selectLocation(gardena, options.location)), selector);
+  const status = describeDevice(device);
+
+  if (options.json) {
+    return printJson(status);
+  }
+  const width = Math.max(
+    ...Object.keys(status).map((x) => {
+      return x.length;
+    })
+  );
+  for (const [key, value] of Object.entries(status)) {
+    console.log(`${key.padEnd(width)}  ${formatValue(value)}`);
+  }
+}
+
+async function commandMower(gardena: GardenaConnection, command: string, selector: string, options: CliOptions): Promise<void> {
+  const devices = await gardena.getDevices(await selectLocation(gardena, options.location));
+  const mower = selector ? findDevice(devices, selector) : onlyMower(devices);
+  if (!(mower instanceof GardenaMower)) {
+    throw new GardenaCliError(`${mower.name} is not a mower`);
+  }
+
+  const minutes = options.minutes !== undefined ? Number(options.minutes) : undefined;
+  if (command == 'start' && (minutes === undefined || !(minutes > 0))) {
+    return usage('The start command requires --minutes with a positive number');
+  }
+
+  // Confirmation is observed through the realtime updates
+  const commandOptions: GardenaMowerCommandOptions = {
+    waitForConfirmation: options.wait,
+    timeout: options.timeout ? Number(options.timeout) * 1000 : undefined
+  };
+  if (options.wait) {
+    await gardena.activateRealtimeUpdates(await gardena.getLocationOf(mower));
+  }
+
+  let result: GardenaMowerCommandResult;
+  switch (command) {
+    case 'start':
+      result = await mower.startMowing(minutes, commandOptions);
+      break;
+    case 'park':
+      result = await mower.parkUntilFurtherNotice(commandOptions);
+      break;
+    case 'park-until-next-task':
+      result = await mower.parkUntilNextTask(commandOptions);
+      break;
+    case 'resume':
+      result = await mower.resumeSchedule(commandOptions);
+      break;
+  }
+
+  if (options.json) {
+    return printJson(result);
+  }
+  if (result.confirmed) {
+    console.log(`${mower.name}: ${result.previousActivity} -> ${result.activity} (${(result.duration / 1000).toFixed(1)}s)`);
+  } else {
+    console.log(`${mower.name}: ${command} command accepted`);
+  }
+}
+
+async function watch(gardena: GardenaConnection, options: CliOptions): Promise<void> {
+  const location = await selectLocation(gardena, options.location);
+  const devices = await gardena.getDevices(location);
+
+  // Print every change as it comes in
+  const print = (device: GardenaDevice, changes: GardenaDeviceChange[]) => {
+    for (const change of changes) {
+      if (options.json) {
+        console.log(
+          JSON.stringify({
+            ts: change.ts?.toISOString(),
+            deviceId: device.id,
+            device: device.name,
+            field: change.field,
+            oldValue: change.oldValue,
+            newValue: change.newValue
+          })
+        );
+      } else {
+        console.log(
+          `${change.ts?.toISOString() ?? ''} ${device.name} ${change.field}: ${formatValue(change.oldValue)} -> ${formatValue(change.newValue)}`
+        );
+      }
+    }
+  };
+  for (const device of devices) {
+    device.onChange((changes) => {
+      print(device, changes);
+    });
+    if (device instanceof GardenaIrrigationControl) {
+      for (const valve of device.valves) {
+        valve.onChange((changes) => {
+          print(valve, changes);
+        });
+      }
+    }
+  }
+
+  // Connection state goes to stderr, so it doesn't mix with the stream
+  gardena.onLocationStateChange((loc, state, _previousState, lastError) => {
+    if (!location || loc === location) {
+      console.error(`[${loc.name}] ${state}${lastError ? `: ${lastError.message}` : ''}`);
+    }
+  });
+
+  await gardena.activateRealtimeUpdates(location);
+
+  // Stream until interrupted
+  await new Promise<void>((resolve) => {
+    process.once('SIGINT', resolve);
+    process.once('SIGTERM', resolve);
+  });
+}
+
+// Without an id, commands apply to all locations
+async function selectLocation(gardena: GardenaConnection, id?: string): Promise<GardenaLocation | undefined> {
+  if (!id) {
+    return undefined;
+  }
+
+  const location = (await gardena.getLocations()).find((x) => {
+    return x.id == id || x.name == id;
+  });
+  if (!location) {
+    throw new GardenaCliError(`Couldn't find location ${id}`);
+  }
+  return location;
+}
+
+function findDevice(devices: GardenaDevice[], selector: string): GardenaDevice {
+  const device =
+    devices.find((x) => {
+      return x.id == selector;
+    }) ??
+    devices.find((x) => {
+      return x.name?.toLowerCase() == selector.toLowerCase();
+    });
+  if (!device) {
+    throw new GardenaCliError(`Couldn't find device ${selector}`);
+  }
+  return device;
+}
+
+function onlyMower(devices: GardenaDevice[]): GardenaMower {
+  const mowers = devices.filter((x) => {
+    return x instanceof GardenaMower;
+  }) as GardenaMower[];
+  if (mowers.length != 1) {
+    throw new GardenaCliError(mowers.length ? 'Multiple mowers available, select one by id or name' : 'No mower found');
+  }
+  return mowers[0];
+}
+
+function describeDevice(device: GardenaDevice): { [field: string]: unknown } {
+  const status: { [field: string]: unknown } = {
+    id: device.id,
+    name: device.name,
+    type: device.constructor.name.replace(/^Gardena/, ''),
+    serial: device.serial,
+    modelType: device.modelType
+  };
+  for (const field of STATUS_FIELDS) {
+    if (device[field] !== undefined && device[field] !== null) {
+      status[field] = device[field];
+    }
+  }
+  return status;
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '-';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function printJson(value: unknown): void {
+  console.log(JSON.stringify(value, null, 2));
+}
+
+function printTable(rows: { [column: string]: unknown }[]): void {
+  if (!rows.length) {
+    return;
+  }
+
+  const columns = Object.keys(rows[0]);
+  const widths = columns.map((column) => {
+    return Math.max(
+      column.length,
+      ...rows.map((x) => {
+        return formatValue(x[column]).length;
+      })
+    );
+  });
+  const line = (values: string[]) => {
+    return values
+      .map((x, i) => {
+        return x.padEnd(widths[i]);
+      })
+      .join('  ')
+      .trimEnd();
+  };
+
+  const headers = columns.map((x) => {
+    return x.toUpperCase();
+  });
+  console.log(line(headers));
+  for (const row of rows) {
+    const values = columns.map((x) => {
+      return formatValue(row[x]);
+    });
+    console.log(line(values));
+  }
+}
+
+function usage(message: string): void {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exitCode = 2;
+}
+
+main().then(
+  () => {
+    // Realtime connections or timers shouldn't keep the process alive once done
+    process.exit();
+  },
+  (e) => {
+    const causes: string[] = [];
+    for (let err = e; err; err = err.cause) {
+      causes.push(err.message ?? String(err));
+    }
+    console.error(`Error: ${causes.join(': ')}`);
+    process.exit(1);
+  }
+);
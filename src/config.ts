@@ -1 +1,3 @@
 export const API_BASE = 'https://api.smart.gardena.dev/v1';
+export const AUTH_BASE = 'https://api.authentication.husqvarnagroup.dev/v1';
+export const REQUEST_TIMEOUT = 30000; // 30 seconds
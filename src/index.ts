@@ -1,15 +1,37 @@
 import { GardenaConnection } from './GardenaConnection.js';
 export default GardenaConnection;
 
-export type * from './GardenaAccessToken';
+export * from './GardenaAccessToken.js';
+export * from './GardenaApiError.js';
+export * from './GardenaApiParser.js';
 export type * from './GardenaAuth';
 
 export * from './GardenaDevice.js';
+export * from './GardenaDeviceRegistry.js';
+export * from './GardenaTransport.js';
+export * from './GardenaLogger.js';
+export * from './GardenaMetrics.js';
+export * from './GardenaRateLimiter.js';
+export * from './GardenaTokenStore.js';
 export * from './GardenaLocation.js';
 export * from './GardenaMower.js';
+export * from './GardenaMowerHistory.js';
+export * from './GardenaMowerHistoryStore.js';
+export * from './GardenaValve.js';
+export * from './GardenaIrrigationControl.js';
+export * from './GardenaPowerSocket.js';
+export * from './GardenaSensor.js';
+export * from './GardenaPump.js';
+export * from './GardenaGenericDevice.js';
+export * from './GardenaDeviceCommands.js';
+export * from './GardenaMqttBridge.js';
+export * from './GardenaHttpGateway.js';
+export * from './GardenaRulesEngine.js';
+export * from './GardenaScheduler.js';
+export * from './GardenaSchedulerStore.js';
+export * from './GardenaStatusCatalog.js';
 
 export * from './Enums.js';
 
 export { GardenaWrongCredentialsError, GardenaAuthError } from './GardenaAuth.js';
-export { GardenaApiError } from './GardenaConnection.js';
-//export { GardenaLocationError } from './GardenaLocation.js'
+export { GardenaLocationError } from './GardenaLocation.js';
@@ -0,0 +1,167 @@
+import type { GardenaStatusTranslations } from '../GardenaStatusCatalog.js';
+
+export const de: GardenaStatusTranslations = {
+  unknown: { description: 'Unbekannter Status ({code})', action: 'Prüfen Sie das Gerät in der Gardena-App.' },
+  mowerError: {
+    NO_MESSAGE: { description: 'Kein Fehler' },
+    OUTSIDE_WORKING_AREA: {
+      description: 'Der Mäher befindet sich außerhalb seines Arbeitsbereichs',
+      action: 'Tragen Sie den Mäher zurück innerhalb des Begrenzungsdrahts und starten Sie ihn erneut.'
+    },
+    NO_LOOP_SIGNAL: {
+      description: 'Kein Signal vom Begrenzungsdraht',
+      action: 'Prüfen Sie, ob die Ladestation Strom hat und der Begrenzungsdraht nicht unterbrochen ist.'
+    },
+    WRONG_LOOP_SIGNAL: {
+      description: 'Falsches Signal vom Begrenzungsdraht',
+      action: 'Prüfen Sie die Anschlüsse des Begrenzungsdrahts an der Ladestation und koppeln Sie den Mäher erneut.'
+    },
+    LOOP_SENSOR_PROBLEM_FRONT: { description: 'Problem mit dem vorderen Drahtsensor', action: 'Wenden Sie sich an den Gardena-Service.' },
+    LOOP_SENSOR_PROBLEM_REAR: { description: 'Problem mit dem hinteren Drahtsensor', action: 'Wenden Sie sich an den Gardena-Service.' },
+    LOOP_SENSOR_PROBLEM_LEFT: { description: 'Problem mit dem linken Drahtsensor', action: 'Wenden Sie sich an den Gardena-Service.' },
+    LOOP_SENSOR_PROBLEM_RIGHT: { description: 'Problem mit dem rechten Drahtsensor', action: 'Wenden Sie sich an den Gardena-Service.' },
+    WRONG_PIN_CODE: { description: 'Falscher PIN-Code eingegeben', action: 'Geben Sie den richtigen PIN-Code am Mäher ein.' },
+    TRAPPED: { description: 'Der Mäher steckt fest', action: 'Befreien Sie den Mäher und entfernen oder sichern Sie das Hindernis.' },
+    UPSIDE_DOWN: { description: 'Der Mäher liegt auf dem Kopf', action: 'Drehen Sie den Mäher wieder um und prüfen Sie ihn auf Schäden.' },
+    EMPTY_BATTERY: { description: 'Der Akku ist leer', action: 'Stellen Sie den Mäher in die Ladestation.' },
+    NO_DRIVE: {
+      description: 'Der Mäher kann nicht fahren',
+      action: 'Prüfen Sie die Räder auf Hindernisse und den Rasen auf Löcher oder steile Hänge.'
+    },
+    TEMPORARILY_LIFTED: { description: 'Der Mäher wurde kurz angehoben' },
+    LIFTED: { description: 'Der Mäher wurde angehoben', action: 'Setzen Sie den Mäher zurück auf den Rasen und bestätigen Sie am Mäher.' },
+    STUCK_IN_CHARGING_STATION: {
+      description: 'Der Mäher steckt in der Ladestation fest',
+      action: 'Entfernen Sie Hindernisse rund um die Ladestation.'
+    },
+    CHARGING_STATION_BLOCKED: {
+      description: 'Die Ladestation ist blockiert',
+      action: 'Machen Sie die Einfahrt der Ladestation frei und prüfen Sie, ob sie eben steht.'
+    },
+    COLLISION_SENSOR_PROBLEM_REAR: {
+      description: 'Problem mit dem hinteren Kollisionssensor',
+      action: 'Prüfen Sie, ob sich die Karosserie frei bewegt, sonst wenden Sie sich an den Gardena-Service.'
+    },
+    COLLISION_SENSOR_PROBLEM_FRONT: {
+      description: 'Problem mit dem vorderen Kollisionssensor',
+      action: 'Prüfen Sie, ob sich die Karosserie frei bewegt, sonst wenden Sie sich an den Gardena-Service.'
+    },
+    WHEEL_MOTOR_BLOCKED_RIGHT: {
+      description: 'Der rechte Radmotor ist blockiert',
+      action: 'Reinigen Sie das rechte Rad und entfernen Sie alles, was sich darum gewickelt hat.'
+    },
+    WHEEL_MOTOR_BLOCKED_LEFT: {
+      description: 'Der linke Radmotor ist blockiert',
+      action: 'Reinigen Sie das linke Rad und entfernen Sie alles, was sich darum gewickelt hat.'
+    },
+    WHEEL_DRIVE_PROBLEM_RIGHT: { description: 'Problem mit dem rechten Radantrieb', action: 'Wenden Sie sich an den Gardena-Service.' },
+    WHEEL_DRIVE_PROBLEM_LEFT: { description: 'Problem mit dem linken Radantrieb', action: 'Wenden Sie sich an den Gardena-Service.' },
+    CUTTING_MOTOR_DRIVE_DEFECT: { description: 'Der Antrieb des Mähmotors ist defekt', action: 'Wenden Sie sich an den Gardena-Service.' },
+    CUTTING_SYSTEM_BLOCKED: {
+      description: 'Das Schneidsystem ist blockiert',
+      action: 'Schalten Sie den Mäher aus und reinigen Sie die Messerscheibe.'
+    },
+    INVALID_SUB_DEVICE_COMBINATION: { description: 'Ungültige Kombination von Komponenten', action: 'Wenden Sie sich an den Gardena-Service.' },
+    MEMORY_CIRCUIT_PROBLEM: { description: 'Problem mit dem Speicherschaltkreis', action: 'Wenden Sie sich an den Gardena-Service.' },
+    CHARGING_SYSTEM_PROBLEM: { description: 'Problem mit dem Ladesystem', action: 'Wenden Sie sich an den Gardena-Service.' },
+    STOP_BUTTON_PROBLEM: { description: 'Problem mit der Stopp-Taste', action: 'Wenden Sie sich an den Gardena-Service.' },
+    TILT_SENSOR_PROBLEM: { description: 'Problem mit dem Neigungssensor', action: 'Wenden Sie sich an den Gardena-Service.' },
+    MOWER_TILTED: {
+      description: 'Der Mäher ist zu stark geneigt',
+      action: 'Stellen Sie den Mäher auf eine ebenere Fläche und schließen Sie zu steile Hänge aus.'
+    },
+    WHEEL_MOTOR_OVERLOADED_RIGHT: {
+      description: 'Der rechte Radmotor ist überlastet',
+      action: 'Prüfen Sie das rechte Rad auf Hindernisse und ob das Gras zu hoch ist.'
+    },
+    WHEEL_MOTOR_OVERLOADED_LEFT: {
+      description: 'Der linke Radmotor ist überlastet',
+      action: 'Prüfen Sie das linke Rad auf Hindernisse und ob das Gras zu hoch ist.'
+    },
+    CHARGING_CURRENT_TOO_HIGH: {
+      description: 'Der Ladestrom ist zu hoch',
+      action: 'Verwenden Sie das Originalnetzteil, sonst wenden Sie sich an den Gardena-Service.'
+    },
+    ELECTRONIC_PROBLEM: { description: 'Elektronisches Problem', action: 'Starten Sie den Mäher neu, sonst wenden Sie sich an den Gardena-Service.' },
+    CUTTING_MOTOR_PROBLEM: {
+      description: 'Problem mit dem Mähmotor',
+      action: 'Reinigen Sie die Messerscheibe, sonst wenden Sie sich an den Gardena-Service.'
+    },
+    LIMITED_CUTTING_HEIGHT_RANGE: { description: 'Der Schnitthöhenbereich ist eingeschränkt', action: 'Reinigen Sie die Schnitthöhenverstellung.' },
+    CUTTING_HEIGHT_PROBLEM_DRIVE: {
+      description: 'Problem mit dem Antrieb der Schnitthöhenverstellung',
+      action: 'Wenden Sie sich an den Gardena-Service.'
+    },
+    CUTTING_HEIGHT_PROBLEM_CURR: {
+      description: 'Problem mit dem Motorstrom der Schnitthöhenverstellung',
+      action: 'Wenden Sie sich an den Gardena-Service.'
+    },
+    CUTTING_HEIGHT_PROBLEM_DIR: {
+      description: 'Problem mit der Richtung der Schnitthöhenverstellung',
+      action: 'Wenden Sie sich an den Gardena-Service.'
+    },
+    CUTTING_HEIGHT_BLOCKED: { description: 'Die Schnitthöhenverstellung ist blockiert', action: 'Reinigen Sie die Schnitthöhenverstellung.' },
+    CUTTING_HEIGHT_PROBLEM: { description: 'Problem mit der Schnitthöhenverstellung', action: 'Wenden Sie sich an den Gardena-Service.' },
+    BATTERY_PROBLEM: { description: 'Problem mit dem Akku', action: 'Wenden Sie sich an den Gardena-Service.' },
+    TOO_MANY_BATTERIES: { description: 'Zu viele Akkus angeschlossen', action: 'Wenden Sie sich an den Gardena-Service.' },
+    ALARM_MOWER_SWITCHED_OFF: {
+      description: 'Alarm: Der Mäher wurde ausgeschaltet',
+      action: 'Sehen Sie nach dem Mäher, er könnte gestohlen worden sein.'
+    },
+    ALARM_MOWER_STOPPED: { description: 'Alarm: Der Mäher wurde angehalten', action: 'Sehen Sie nach dem Mäher, er könnte gestohlen worden sein.' },
+    ALARM_MOWER_LIFTED: { description: 'Alarm: Der Mäher wurde angehoben', action: 'Sehen Sie nach dem Mäher, er könnte gestohlen worden sein.' },
+    ALARM_MOWER_TILTED: { description: 'Alarm: Der Mäher wurde gekippt', action: 'Sehen Sie nach dem Mäher, er könnte gestohlen worden sein.' },
+    ALARM_MOWER_IN_MOTION: { description: 'Alarm: Der Mäher wird bewegt', action: 'Sehen Sie nach dem Mäher, er könnte gestohlen worden sein.' },
+    ALARM_OUTSIDE_GEOFENCE: {
+      description: 'Alarm: Der Mäher hat seinen Geofence verlassen',
+      action: 'Sehen Sie nach dem Mäher, er könnte gestohlen worden sein.'
+    },
+    SLIPPED: { description: 'Der Mäher ist gerutscht', action: 'Prüfen Sie den Rasen auf nasse oder steile Stellen und die Räder auf Schmutz.' },
+    INVALID_BATTERY_COMBINATION: { description: 'Ungültige Kombination von Akkus', action: 'Wenden Sie sich an den Gardena-Service.' },
+    UNINITIALISED: { description: 'Der Mäher wurde noch nicht eingerichtet', action: 'Schließen Sie die Installation des Mähers ab.' },
+    WAIT_UPDATING: { description: 'Der Mäher aktualisiert seine Firmware' },
+    WAIT_POWER_UP: { description: 'Der Mäher startet' },
+    OFF_DISABLED: { description: 'Der Mäher ist ausgeschaltet', action: 'Schalten Sie den Mäher ein.' },
+    OFF_HATCH_OPEN: { description: 'Der Mäher ist aus, weil die Klappe offen ist', action: 'Schließen Sie die Klappe.' },
+    OFF_HATCH_CLOSED: {
+      description: 'Der Mäher ist bei geschlossener Klappe aus',
+      action: 'Schalten Sie den Mäher ein und bestätigen Sie am Mäher.'
+    },
+    PARKED_DAILY_LIMIT_REACHED: { description: 'Geparkt, das tägliche Mählimit ist erreicht' }
+  },
+  mowerActivity: {
+    PAUSED: { description: 'Pausiert', action: 'Setzen Sie den Zeitplan fort, um weiterzumähen.' },
+    OK_CUTTING: { description: 'Mäht' },
+    OK_CUTTING_TIMER_OVERRIDDEN: { description: 'Mäht (manuell)' },
+    OK_SEARCHING: { description: 'Sucht die Ladestation' },
+    OK_LEAVING: { description: 'Verlässt die Ladestation' },
+    OK_CHARGING: { description: 'Lädt' },
+    PARKED_TIMER: { description: 'Geparkt bis zur nächsten geplanten Aufgabe' },
+    PARKED_PARK_SELECTED: { description: 'Geparkt bis auf Weiteres' },
+    PARKED_AUTOTIMER: { description: 'Geparkt, das Gras ist zu kurz' },
+    NONE: { description: 'Keine Aktivität', action: 'Prüfen Sie den Mäher in der Gardena-App.' }
+  },
+  mowerState: {
+    OK: { description: 'OK' },
+    WARNING: { description: 'Warnung', action: 'Prüfen Sie den Fehler des Mähers.' },
+    ERROR: { description: 'Fehler', action: 'Prüfen Sie den Fehler des Mähers.' },
+    UNAVAILABLE: {
+      description: 'Nicht verfügbar',
+      action: 'Prüfen Sie, ob der Mäher eingeschaltet ist und sich in Reichweite des Gateways befindet.'
+    }
+  },
+  batteryState: {
+    OK: { description: 'Akku OK' },
+    LOW: { description: 'Akku schwach', action: 'Laden oder ersetzen Sie den Akku bald.' },
+    REPLACE_NOW: { description: 'Akku muss ersetzt werden', action: 'Ersetzen Sie den Akku jetzt.' },
+    OUT_OF_OPERATION: { description: 'Akku außer Betrieb', action: 'Ersetzen Sie den Akku.' },
+    CHARGING: { description: 'Lädt' },
+    NO_BATTERY: { description: 'Kein Akku (Netzbetrieb)' },
+    UNKNOWN: { description: 'Akkustatus unbekannt' }
+  },
+  rfLinkState: {
+    ONLINE: { description: 'Online' },
+    OFFLINE: { description: 'Offline', action: 'Prüfen Sie, ob das Gerät Strom hat und sich in Reichweite des Gateways befindet.' },
+    UNKNOWN: { description: 'Verbindungsstatus unbekannt' }
+  }
+};
@@ -0,0 +1,134 @@
+import type { GardenaStatusTranslations } from '../GardenaStatusCatalog.js';
+
+export const en: GardenaStatusTranslations = {
+  unknown: { description: 'Unknown status ({code})', action: 'Check the device in the Gardena app.' },
+  mowerError: {
+    NO_MESSAGE: { description: 'No error' },
+    OUTSIDE_WORKING_AREA: {
+      description: 'The mower is outside its working area',
+      action: 'Carry the mower back inside the boundary wire and start it again.'
+    },
+    NO_LOOP_SIGNAL: {
+      description: 'No boundary wire signal',
+      action: 'Check that the charging station has power and that the boundary wire is not broken.'
+    },
+    WRONG_LOOP_SIGNAL: {
+      description: 'Wrong boundary wire signal',
+      action: 'Check the boundary wire connections on the charging station and pair the mower with it again.'
+    },
+    LOOP_SENSOR_PROBLEM_FRONT: { description: 'Problem with the front boundary wire sensor', action: 'Contact Gardena service.' },
+    LOOP_SENSOR_PROBLEM_REAR: { description: 'Problem with the rear boundary wire sensor', action: 'Contact Gardena service.' },
+    LOOP_SENSOR_PROBLEM_LEFT: { description: 'Problem with the left boundary wire sensor', action: 'Contact Gardena service.' },
+    LOOP_SENSOR_PROBLEM_RIGHT: { description: 'Problem with the right boundary wire sensor', action: 'Contact Gardena service.' },
+    WRONG_PIN_CODE: { description: 'Wrong PIN code entered', action: 'Enter the correct PIN code on the mower.' },
+    TRAPPED: { description: 'The mower is trapped', action: 'Free the mower and remove or fence off the obstacle.' },
+    UPSIDE_DOWN: { description: 'The mower is upside down', action: 'Turn the mower back over and check it for damage.' },
+    EMPTY_BATTERY: { description: 'The battery is empty', action: 'Place the mower in the charging station.' },
+    NO_DRIVE: { description: 'The mower cannot drive', action: 'Check the wheels for obstructions and the lawn for holes or steep slopes.' },
+    TEMPORARILY_LIFTED: { description: 'The mower was temporarily lifted' },
+    LIFTED: { description: 'The mower has been lifted', action: 'Put the mower back on the lawn and confirm on the mower.' },
+    STUCK_IN_CHARGING_STATION: {
+      description: 'The mower is stuck in the charging station',
+      action: 'Remove any obstacles around the charging station.'
+    },
+    CHARGING_STATION_BLOCKED: {
+      description: 'The charging station is blocked',
+      action: 'Clear the entrance of the charging station and check that it stands level.'
+    },
+    COLLISION_SENSOR_PROBLEM_REAR: {
+      description: 'Problem with the rear collision sensor',
+      action: 'Check that the body moves freely, otherwise contact Gardena service.'
+    },
+    COLLISION_SENSOR_PROBLEM_FRONT: {
+      description: 'Problem with the front collision sensor',
+      action: 'Check that the body moves freely, otherwise contact Gardena service.'
+    },
+    WHEEL_MOTOR_BLOCKED_RIGHT: {
+      description: 'The right wheel motor is blocked',
+      action: 'Clean the right wheel and remove anything wrapped around it.'
+    },
+    WHEEL_MOTOR_BLOCKED_LEFT: {
+      description: 'The left wheel motor is blocked',
+      action: 'Clean the left wheel and remove anything wrapped around it.'
+    },
+    WHEEL_DRIVE_PROBLEM_RIGHT: { description: 'Problem with the right wheel drive', action: 'Contact Gardena service.' },
+    WHEEL_DRIVE_PROBLEM_LEFT: { description: 'Problem with the left wheel drive', action: 'Contact Gardena service.' },
+    CUTTING_MOTOR_DRIVE_DEFECT: { description: 'The cutting motor drive is defective', action: 'Contact Gardena service.' },
+    CUTTING_SYSTEM_BLOCKED: { description: 'The cutting system is blocked', action: 'Switch the mower off and clean the blade disc.' },
+    INVALID_SUB_DEVICE_COMBINATION: { description: 'Invalid combination of components', action: 'Contact Gardena service.' },
+    MEMORY_CIRCUIT_PROBLEM: { description: 'Problem with the memory circuit', action: 'Contact Gardena service.' },
+    CHARGING_SYSTEM_PROBLEM: { description: 'Problem with the charging system', action: 'Contact Gardena service.' },
+    STOP_BUTTON_PROBLEM: { description: 'Problem with the stop button', action: 'Contact Gardena service.' },
+    TILT_SENSOR_PROBLEM: { description: 'Problem with the tilt sensor', action: 'Contact Gardena service.' },
+    MOWER_TILTED: { description: 'The mower is tilted too much', action: 'Move the mower to a flatter area and exclude slopes that are too steep.' },
+    WHEEL_MOTOR_OVERLOADED_RIGHT: {
+      description: 'The right wheel motor is overloaded',
+      action: 'Check the right wheel for obstructions and the grass for being too high.'
+    },
+    WHEEL_MOTOR_OVERLOADED_LEFT: {
+      description: 'The left wheel motor is overloaded',
+      action: 'Check the left wheel for obstructions and the grass for being too high.'
+    },
+    CHARGING_CURRENT_TOO_HIGH: {
+      description: 'The charging current is too high',
+      action: 'Use the original power supply, otherwise contact Gardena service.'
+    },
+    ELECTRONIC_PROBLEM: { description: 'Electronic problem', action: 'Restart the mower, otherwise contact Gardena service.' },
+    CUTTING_MOTOR_PROBLEM: { description: 'Problem with the cutting motor', action: 'Clean the blade disc, otherwise contact Gardena service.' },
+    LIMITED_CUTTING_HEIGHT_RANGE: { description: 'The cutting height range is limited', action: 'Clean around the cutting height adjustment.' },
+    CUTTING_HEIGHT_PROBLEM_DRIVE: { description: 'Problem with the cutting height drive', action: 'Contact Gardena service.' },
+    CUTTING_HEIGHT_PROBLEM_CURR: { description: 'Problem with the cutting height motor current', action: 'Contact Gardena service.' },
+    CUTTING_HEIGHT_PROBLEM_DIR: { description: 'Problem with the cutting height direction', action: 'Contact Gardena service.' },
+    CUTTING_HEIGHT_BLOCKED: { description: 'The cutting height adjustment is blocked', action: 'Clean around the cutting height adjustment.' },
+    CUTTING_HEIGHT_PROBLEM: { description: 'Problem with the cutting height adjustment', action: 'Contact Gardena service.' },
+    BATTERY_PROBLEM: { description: 'Problem with the battery', action: 'Contact Gardena service.' },
+    TOO_MANY_BATTERIES: { description: 'Too many batteries connected', action: 'Contact Gardena service.' },
+    ALARM_MOWER_SWITCHED_OFF: { description: 'Alarm: the mower was switched off', action: 'Check on the mower, it may have been stolen.' },
+    ALARM_MOWER_STOPPED: { description: 'Alarm: the mower was stopped', action: 'Check on the mower, it may have been stolen.' },
+    ALARM_MOWER_LIFTED: { description: 'Alarm: the mower was lifted', action: 'Check on the mower, it may have been stolen.' },
+    ALARM_MOWER_TILTED: { description: 'Alarm: the mower was tilted', action: 'Check on the mower, it may have been stolen.' },
+    ALARM_MOWER_IN_MOTION: { description: 'Alarm: the mower is being moved', action: 'Check on the mower, it may have been stolen.' },
+    ALARM_OUTSIDE_GEOFENCE: { description: 'Alarm: the mower left its geofence', action: 'Check on the mower, it may have been stolen.' },
+    SLIPPED: { description: 'The mower slipped', action: 'Check the lawn for wet or steep areas and the wheels for dirt.' },
+    INVALID_BATTERY_COMBINATION: { description: 'Invalid combination of batteries', action: 'Contact Gardena service.' },
+    UNINITIALISED: { description: 'The mower has not been set up', action: 'Complete the installation of the mower.' },
+    WAIT_UPDATING: { description: 'The mower is updating its firmware' },
+    WAIT_POWER_UP: { description: 'The mower is powering up' },
+    OFF_DISABLED: { description: 'The mower is switched off', action: 'Switch the mower on.' },
+    OFF_HATCH_OPEN: { description: 'The mower is off because its hatch is open', action: 'Close the hatch.' },
+    OFF_HATCH_CLOSED: { description: 'The mower is off with its hatch closed', action: 'Switch the mower on and confirm on the mower.' },
+    PARKED_DAILY_LIMIT_REACHED: { description: 'Parked, the daily mowing limit has been reached' }
+  },
+  mowerActivity: {
+    PAUSED: { description: 'Paused', action: 'Resume the schedule to continue mowing.' },
+    OK_CUTTING: { description: 'Mowing' },
+    OK_CUTTING_TIMER_OVERRIDDEN: { description: 'Mowing (manual)' },
+    OK_SEARCHING: { description: 'Searching for the charging station' },
+    OK_LEAVING: { description: 'Leaving the charging station' },
+    OK_CHARGING: { description: 'Charging' },
+    PARKED_TIMER: { description: 'Parked until the next scheduled task' },
+    PARKED_PARK_SELECTED: { description: 'Parked until further notice' },
+    PARKED_AUTOTIMER: { description: 'Parked, the grass is too short' },
+    NONE: { description: 'No activity', action: 'Check the mower in the Gardena app.' }
+  },
+  mowerState: {
+    OK: { description: 'OK' },
+    WARNING: { description: 'Warning', action: 'Check the error of the mower.' },
+    ERROR: { description: 'Error', action: 'Check the error of the mower.' },
+    UNAVAILABLE: { description: 'Unavailable', action: 'Check that the mower is switched on and within range of the gateway.' }
+  },
+  batteryState: {
+    OK: { description: 'Battery OK' },
+    LOW: { description: 'Battery low', action: 'Charge or replace the battery soon.' },
+    REPLACE_NOW: { description: 'Battery needs replacing', action: 'Replace the battery now.' },
+    OUT_OF_OPERATION: { description: 'Battery out of operation', action: 'Replace the battery.' },
+    CHARGING: { description: 'Charging' },
+    NO_BATTERY: { description: 'No battery (mains powered)' },
+    UNKNOWN: { description: 'Battery state unknown' }
+  },
+  rfLinkState: {
+    ONLINE: { description: 'Online' },
+    OFFLINE: { description: 'Offline', action: 'Check that the device is powered and within range of the gateway.' },
+    UNKNOWN: { description: 'Connection state unknown' }
+  }
+};
@@ -0,0 +1,137 @@
+import type { GardenaStatusTranslations } from '../GardenaStatusCatalog.js';
+
+export const nl: GardenaStatusTranslations = {
+  unknown: { description: 'Onbekende status ({code})', action: 'Controleer het apparaat in de Gardena-app.' },
+  mowerError: {
+    NO_MESSAGE: { description: 'Geen fout' },
+    OUTSIDE_WORKING_AREA: {
+      description: 'De maaier staat buiten zijn werkgebied',
+      action: 'Draag de maaier terug binnen de begrenzingsdraad en start hem opnieuw.'
+    },
+    NO_LOOP_SIGNAL: {
+      description: 'Geen signaal van de begrenzingsdraad',
+      action: 'Controleer of het laadstation stroom heeft en of de begrenzingsdraad niet onderbroken is.'
+    },
+    WRONG_LOOP_SIGNAL: {
+      description: 'Verkeerd signaal van de begrenzingsdraad',
+      action: 'Controleer de aansluitingen van de begrenzingsdraad op het laadstation en koppel de maaier opnieuw.'
+    },
+    LOOP_SENSOR_PROBLEM_FRONT: { description: 'Probleem met de voorste draadsensor', action: 'Neem contact op met de Gardena-service.' },
+    LOOP_SENSOR_PROBLEM_REAR: { description: 'Probleem met de achterste draadsensor', action: 'Neem contact op met de Gardena-service.' },
+    LOOP_SENSOR_PROBLEM_LEFT: { description: 'Probleem met de linker draadsensor', action: 'Neem contact op met de Gardena-service.' },
+    LOOP_SENSOR_PROBLEM_RIGHT: { description: 'Probleem met de rechter draadsensor', action: 'Neem contact op met de Gardena-service.' },
+    WRONG_PIN_CODE: { description: 'Verkeerde pincode ingevoerd', action: 'Voer de juiste pincode in op de maaier.' },
+    TRAPPED: { description: 'De maaier zit vast', action: 'Bevrijd de maaier en verwijder of scherm het obstakel af.' },
+    UPSIDE_DOWN: { description: 'De maaier ligt ondersteboven', action: 'Draai de maaier terug om en controleer hem op schade.' },
+    EMPTY_BATTERY: { description: 'De accu is leeg', action: 'Zet de maaier in het laadstation.' },
+    NO_DRIVE: { description: 'De maaier kan niet rijden', action: 'Controleer de wielen op obstakels en het gazon op gaten of steile hellingen.' },
+    TEMPORARILY_LIFTED: { description: 'De maaier werd kort opgetild' },
+    LIFTED: { description: 'De maaier is opgetild', action: 'Zet de maaier terug op het gazon en bevestig op de maaier.' },
+    STUCK_IN_CHARGING_STATION: { description: 'De maaier zit vast in het laadstation', action: 'Verwijder obstakels rond het laadstation.' },
+    CHARGING_STATION_BLOCKED: {
+      description: 'Het laadstation is geblokkeerd',
+      action: 'Maak de ingang van het laadstation vrij en controleer of het waterpas staat.'
+    },
+    COLLISION_SENSOR_PROBLEM_REAR: {
+      description: 'Probleem met de achterste botssensor',
+      action: 'Controleer of de behuizing vrij beweegt, neem anders contact op met de Gardena-service.'
+    },
+    COLLISION_SENSOR_PROBLEM_FRONT: {
+      description: 'Probleem met de voorste botssensor',
+      action: 'Controleer of de behuizing vrij beweegt, neem anders contact op met de Gardena-service.'
+    },
+    WHEEL_MOTOR_BLOCKED_RIGHT: {
+      description: 'De rechter wielmotor is geblokkeerd',
+      action: 'Maak het rechterwiel schoon en verwijder wat eromheen gewikkeld zit.'
+    },
+    WHEEL_MOTOR_BLOCKED_LEFT: {
+      description: 'De linker wielmotor is geblokkeerd',
+      action: 'Maak het linkerwiel schoon en verwijder wat eromheen gewikkeld zit.'
+    },
+    WHEEL_DRIVE_PROBLEM_RIGHT: { description: 'Probleem met de aandrijving van het rechterwiel', action: 'Neem contact op met de Gardena-service.' },
+    WHEEL_DRIVE_PROBLEM_LEFT: { description: 'Probleem met de aandrijving van het linkerwiel', action: 'Neem contact op met de Gardena-service.' },
+    CUTTING_MOTOR_DRIVE_DEFECT: { description: 'De aandrijving van de maaimotor is defect', action: 'Neem contact op met de Gardena-service.' },
+    CUTTING_SYSTEM_BLOCKED: { description: 'Het maaisysteem is geblokkeerd', action: 'Schakel de maaier uit en maak de messchijf schoon.' },
+    INVALID_SUB_DEVICE_COMBINATION: { description: 'Ongeldige combinatie van onderdelen', action: 'Neem contact op met de Gardena-service.' },
+    MEMORY_CIRCUIT_PROBLEM: { description: 'Probleem met het geheugencircuit', action: 'Neem contact op met de Gardena-service.' },
+    CHARGING_SYSTEM_PROBLEM: { description: 'Probleem met het laadsysteem', action: 'Neem contact op met de Gardena-service.' },
+    STOP_BUTTON_PROBLEM: { description: 'Probleem met de stopknop', action: 'Neem contact op met de Gardena-service.' },
+    TILT_SENSOR_PROBLEM: { description: 'Probleem met de kantelsensor', action: 'Neem contact op met de Gardena-service.' },
+    MOWER_TILTED: { description: 'De maaier helt te veel', action: 'Zet de maaier op een vlakkere plek en sluit te steile hellingen uit.' },
+    WHEEL_MOTOR_OVERLOADED_RIGHT: {
+      description: 'De rechter wielmotor is overbelast',
+      action: 'Controleer het rechterwiel op obstakels en of het gras niet te hoog is.'
+    },
+    WHEEL_MOTOR_OVERLOADED_LEFT: {
+      description: 'De linker wielmotor is overbelast',
+      action: 'Controleer het linkerwiel op obstakels en of het gras niet te hoog is.'
+    },
+    CHARGING_CURRENT_TOO_HIGH: {
+      description: 'De laadstroom is te hoog',
+      action: 'Gebruik de originele voeding, neem anders contact op met de Gardena-service.'
+    },
+    ELECTRONIC_PROBLEM: { description: 'Elektronisch probleem', action: 'Herstart de maaier, neem anders contact op met de Gardena-service.' },
+    CUTTING_MOTOR_PROBLEM: {
+      description: 'Probleem met de maaimotor',
+      action: 'Maak de messchijf schoon, neem anders contact op met de Gardena-service.'
+    },
+    LIMITED_CUTTING_HEIGHT_RANGE: { description: 'Het bereik van de maaihoogte is beperkt', action: 'Maak de maaihoogteverstelling schoon.' },
+    CUTTING_HEIGHT_PROBLEM_DRIVE: { description: 'Probleem met de aandrijving van de maaihoogte', action: 'Neem contact op met de Gardena-service.' },
+    CUTTING_HEIGHT_PROBLEM_CURR: { description: 'Probleem met de motorstroom van de maaihoogte', action: 'Neem contact op met de Gardena-service.' },
+    CUTTING_HEIGHT_PROBLEM_DIR: {
+      description: 'Probleem met de richting van de maaihoogteverstelling',
+      action: 'Neem contact op met de Gardena-service.'
+    },
+    CUTTING_HEIGHT_BLOCKED: { description: 'De maaihoogteverstelling is geblokkeerd', action: 'Maak de maaihoogteverstelling schoon.' },
+    CUTTING_HEIGHT_PROBLEM: { description: 'Probleem met de maaihoogteverstelling', action: 'Neem contact op met de Gardena-service.' },
+    BATTERY_PROBLEM: { description: 'Probleem met de accu', action: 'Neem contact op met de Gardena-service.' },
+    TOO_MANY_BATTERIES: { description: "Te veel accu's aangesloten", action: 'Neem contact op met de Gardena-service.' },
+    ALARM_MOWER_SWITCHED_OFF: { description: 'Alarm: de maaier werd uitgeschakeld', action: 'Controleer de maaier, hij kan gestolen zijn.' },
+    ALARM_MOWER_STOPPED: { description: 'Alarm: de maaier werd gestopt', action: 'Controleer de maaier, hij kan gestolen zijn.' },
+    ALARM_MOWER_LIFTED: { description: 'Alarm: de maaier werd opgetild', action: 'Controleer de maaier, hij kan gestolen zijn.' },
+    ALARM_MOWER_TILTED: { description: 'Alarm: de maaier werd gekanteld', action: 'Controleer de maaier, hij kan gestolen zijn.' },
+    ALARM_MOWER_IN_MOTION: { description: 'Alarm: de maaier wordt verplaatst', action: 'Controleer de maaier, hij kan gestolen zijn.' },
+    ALARM_OUTSIDE_GEOFENCE: { description: 'Alarm: de maaier heeft zijn geofence verlaten', action: 'Controleer de maaier, hij kan gestolen zijn.' },
+    SLIPPED: { description: 'De maaier is uitgegleden', action: 'Controleer het gazon op natte of steile plekken en de wielen op vuil.' },
+    INVALID_BATTERY_COMBINATION: { description: "Ongeldige combinatie van accu's", action: 'Neem contact op met de Gardena-service.' },
+    UNINITIALISED: { description: 'De maaier is nog niet ingesteld', action: 'Voltooi de installatie van de maaier.' },
+    WAIT_UPDATING: { description: 'De maaier werkt zijn firmware bij' },
+    WAIT_POWER_UP: { description: 'De maaier start op' },
+    OFF_DISABLED: { description: 'De maaier is uitgeschakeld', action: 'Schakel de maaier in.' },
+    OFF_HATCH_OPEN: { description: 'De maaier staat uit omdat de klep open is', action: 'Sluit de klep.' },
+    OFF_HATCH_CLOSED: { description: 'De maaier staat uit met gesloten klep', action: 'Schakel de maaier in en bevestig op de maaier.' },
+    PARKED_DAILY_LIMIT_REACHED: { description: 'Geparkeerd, de dagelijkse maailimiet is bereikt' }
+  },
+  mowerActivity: {
+    PAUSED: { description: 'Gepauzeerd', action: 'Hervat het schema om verder te maaien.' },
+    OK_CUTTING: { description: 'Maaien' },
+    OK_CUTTING_TIMER_OVERRIDDEN: { description: 'Maaien (handmatig)' },
+    OK_SEARCHING: { description: 'Zoekt het laadstation' },
+    OK_LEAVING: { description: 'Verlaat het laadstation' },
+    OK_CHARGING: { description: 'Opladen' },
+    PARKED_TIMER: { description: 'Geparkeerd tot de volgende geplande taak' },
+    PARKED_PARK_SELECTED: { description: 'Geparkeerd tot nader order' },
+    PARKED_AUTOTIMER: { description: 'Geparkeerd, het gras is te kort' },
+    NONE: { description: 'Geen activiteit', action: 'Controleer de maaier in de Gardena-app.' }
+  },
+  mowerState: {
+    OK: { description: 'OK' },
+    WARNING: { description: 'Waarschuwing', action: 'Controleer de fout van de maaier.' },
+    ERROR: { description: 'Fout', action: 'Controleer de fout van de maaier.' },
+    UNAVAILABLE: { description: 'Niet beschikbaar', action: 'Controleer of de maaier aan staat en binnen bereik van de gateway is.' }
+  },
+  batteryState: {
+    OK: { description: 'Accu OK' },
+    LOW: { description: 'Accu bijna leeg', action: 'Laad of vervang de accu binnenkort.' },
+    REPLACE_NOW: { description: 'Accu moet vervangen worden', action: 'Vervang de accu nu.' },
+    OUT_OF_OPERATION: { description: 'Accu buiten werking', action: 'Vervang de accu.' },
+    CHARGING: { description: 'Opladen' },
+    NO_BATTERY: { description: 'Geen accu (netvoeding)' },
+    UNKNOWN: { description: 'Accustatus onbekend' }
+  },
+  rfLinkState: {
+    ONLINE: { description: 'Online' },
+    OFFLINE: { description: 'Offline', action: 'Controleer of het apparaat stroom heeft en binnen bereik van de gateway is.' },
+    UNKNOWN: { description: 'Verbindingsstatus onbekend' }
+  }
+};
@@ -0,0 +1,437 @@
+import EventEmitter from 'events';
+import crypto from 'crypto';
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { Duplex } from 'stream';
+import WebSocket, { WebSocketServer } from 'ws';
+import { GardenaMowerActivity, GardenaMowerErrorCode, GardenaMowerState, GardenaDeviceBatteryState, GardenaDeviceRfLinkState } from '../Enums.js';
+
+export type GardenaSimulatorConfig = {
+  port?: number; // Defaults to a random free port
+  clientId?: string;
+  clientSecret?: string;
+  locationName?: string;
+  transitionDelay?: number; // Milliseconds between simulated state transitions
+  tokenValidity?: number; // Seconds
+};
+
+export type GardenaSimulatorMowerConfig = {
+  id?: string;
+  name?: string;
+  serial?: string;
+  modelType?: string;
+  batteryLevel?: number;
+  state?: GardenaMowerState;
+  activity?: GardenaMowerActivity;
+  operatingHours?: number;
+};
+
+export type GardenaSimulatorService = {
+  id: string;
+  type: string;
+  attributes: { [name: string]: { value: unknown; timestamp?: string } };
+};
+
+export type GardenaSimulatorCommand = {
+  serviceId: string;
+  type: string;
+  command: string;
+  attributes: { [name: string]: unknown };
+  ts: Date;
+};
+
+type GardenaSimulatorDevice = {
+  id: string;
+  services: GardenaSimulatorService[];
+};
+
+enum GardenaSimulatorMowerCommand {
+  Start = 'START_SECONDS_TO_OVERRIDE',
+  ResumeSchedule = 'START_DONT_OVERRIDE',
+  ParkUntilNextTask = 'PARK_UNTIL_NEXT_TASK',
+  ParkUntilFurtherNotice = 'PARK_UNTIL_FURTHER_NOTICE'
+}
+
+export class GardenaSimulator extends EventEmitter {
+  public readonly clientId: string;
+  public readonly clientSecret: string;
+  public readonly locationId: string;
+  public readonly locationName: string;
+  public readonly commands: GardenaSimulatorCommand[] = [];
+  private port: number;
+  private transitionDelay: number;
+  private tokenValidity: number;
+  private devices: GardenaSimulatorDevice[] = [];
+  private tokens = new Set<string>();
+  private webSocketPaths = new Set<string>();
+  private transitions = new Map<string, NodeJS.Timeout[]>();
+  private server: http.Server;
+  private wss: WebSocketServer;
+
+  public constructor(config: GardenaSimulatorConfig = {}) {
+    super();
+
+    this.port = config.port ?? 0;
+    this.clientId = config.clientId ?? 'simulator-client-id';
+    this.clientSecret = config.clientSecret ?? 'simulator-client-secret';
+    this.locationId = crypto.randomUUID();
+    this.locationName = config.locationName ?? 'Simulated garden';
+    this.transitionDelay = config.transitionDelay ?? 500;
+    this.tokenValidity = config.tokenValidity ?? 86400;
+  }
+
+  public async start(): Promise<void> {
+    this.server = http.createServer((req, res) => {
+      this.onRequest(req, res).catch(() => {
+        this.reply(res, 500, { errors: [{ title: 'Internal simulator error' }] });
+      });
+    });
+    this.wss = new WebSocketServer({ noServer: true });
+    this.server.on('upgrade', (req, socket, head) => {
+      this.onUpgrade(req, socket, head);
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(this.port, '127.0.0.1', () => {
+        this.port = (this.server.address() as AddressInfo).port;
+        resolve();
+      });
+    });
+  }
+
+  public async stop(): Promise<void> {
+    // Cancel pending transitions
+    for (const id of this.transitions.keys()) {
+      this.cancelTransitions(id);
+    }
+
+    // Close websockets & server
+    if (this.wss) {
+      for (const client of this.wss.clients) {
+        client.terminate();
+      }
+      this.wss.close();
+    }
+    if (this.server) {
+      await new Promise<void>((resolve) => {
+        this.server.close(() => {
+          resolve();
+        });
+        this.server.closeAllConnections();
+      });
+    }
+    this.server = undefined;
+    this.wss = undefined;
+  }
+
+  public get apiBaseUrl(): string {
+    return `http://127.0.0.1:${this.port}/v1`;
+  }
+
+  public get authBaseUrl(): string {
+    return `http://127.0.0.1:${this.port}/auth/v1`;
+  }
+
+  // Config to pass to GardenaConnection
+  public get connectionConfig(): { clientId: string; clientSecret: string; apiBaseUrl: string; authBaseUrl: string } {
+    return { clientId: this.clientId, clientSecret: this.clientSecret, apiBaseUrl: this.apiBaseUrl, authBaseUrl: this.authBaseUrl };
+  }
+
+  public addMower(config: GardenaSimulatorMowerConfig = {}): string {
+    const id = config.id ?? crypto.randomUUID();
+    const ts = new Date().toISOString();
+
+    this.devices.push({
+      id,
+      services: [
+        {
+          id,
+          type: 'COMMON',
+          attributes: {
+            name: { value: config.name ?? 'Simulated mower' },
+            serial: { value: config.serial ?? '00000001' },
+            modelType: { value: config.modelType ?? 'GARDENA smart SILENO' },
+            batteryLevel: { value: config.batteryLevel ?? 100, timestamp: ts },
+            batteryState: { value: GardenaDeviceBatteryState.Ok, timestamp: ts },
+            rfLinkLevel: { value: 80, timestamp: ts },
+            rfLinkState: { value: GardenaDeviceRfLinkState.Online }
+          }
+        },
+        {
+          id,
+          type: 'MOWER',
+          attributes: {
+            state: { value: config.state ?? GardenaMowerState.Ok, timestamp: ts },
+            activity: { value: config.activity ?? GardenaMowerActivity.Parked, timestamp: ts },
+            lastErrorCode: { value: GardenaMowerErrorCode.NoMessage, timestamp: ts },
+            operatingHours: { value: config.operatingHours ?? 0 }
+          }
+        }
+      ]
+    });
+
+    return id;
+  }
+
+  public getService(deviceId: string, type: string): GardenaSimulatorService {
+    const device = this.devices.find((x) => {
+      return x.id == deviceId;
+    });
+    if (!device) {
+      return undefined;
+    }
+
+    return device.services.find((x) => {
+      return x.type == type;
+    });
+  }
+
+  // Update attributes of a service and push them to all connected websockets
+  public setAttributes(deviceId: string, type: string, attributes: { [name: string]: unknown }): void {
+    const service = this.getService(deviceId, type);
+    if (!service) {
+      throw new Error(`Unknown ${type} service for device ${deviceId}`);
+    }
+
+    const ts = new Date().toISOString();
+    for (const [name, value] of Object.entries(attributes)) {
+      service.attributes[name] = { value, timestamp: ts };
+    }
+
+    this.push(deviceId, service);
+  }
+
+  public raiseError(deviceId: string, errorCode: GardenaMowerErrorCode, state = GardenaMowerState.Error): void {
+    this.cancelTransitions(deviceId);
+    this.setAttributes(deviceId, 'MOWER', { state, activity: GardenaMowerActivity.None, lastErrorCode: errorCode });
+  }
+
+  public clearError(deviceId: string): void {
+    this.setAttributes(deviceId, 'MOWER', { state: GardenaMowerState.Ok, activity: GardenaMowerActivity.ParkedManual });
+  }
+
+  // Invalidate all issued access tokens, e.g. to test re-authentication
+  public revokeTokens(): void {
+    this.tokens.clear();
+  }
+
+  // Drop all websockets, e.g. to test reconnection behaviour
+  public disconnectWebSockets(): void {
+    if (this.wss) {
+      for (const client of this.wss.clients) {
+        client.terminate();
+      }
+    }
+  }
+
+  private push(deviceId: string, service: GardenaSimulatorService): void {
+    if (!this.wss) {
+      return;
+    }
+
+    const msg = JSON.stringify({ ...service, relationships: { device: { data: { id: deviceId, type: 'DEVICE' } } } });
+    for (const client of this.wss.clients) {
+      if (client.readyState == WebSocket.OPEN) {
+        client.send(msg);
+      }
+    }
+  }
+
+  private scheduleTransitions(deviceId: string, steps: { [name: string]: unknown }[]): void {
+    this.cancelTransitions(deviceId);
+
+    // Apply the first step immediately, the others after each other
+    const timers = steps.map((step, i) => {
+      return setTimeout(() => {
+        this.setAttributes(deviceId, 'MOWER', step);
+      }, i * this.transitionDelay);
+    });
+    this.transitions.set(deviceId, timers);
+  }
+
+  private cancelTransitions(deviceId: string): void {
+    for (const timer of this.transitions.get(deviceId) ?? []) {
+      clearTimeout(timer);
+    }
+    this.transitions.delete(deviceId);
+  }
+
+  private async onRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url, `http://127.0.0.1:${this.port}`);
+    const body = await this.readBody(req);
+
+    // Authentication API
+    if (req.method == 'POST' && url.pathname == '/auth/v1/oauth2/token') {
+      const params = new URLSearchParams(body);
+      if (
+        params.get('grant_type') != 'client_credentials' ||
+        params.get('client_id') != this.clientId ||
+        params.get('client_secret') != this.clientSecret
+      ) {
+        this.reply(res, 400, { error: 'invalid_client' });
+        return;
+      }
+
+      const token = crypto.randomUUID();
+      this.tokens.add(token);
+      this.reply(res, 200, { access_token: token, user_id: 'simulator-user', scope: 'iam:read', expires_in: this.tokenValidity });
+      return;
+    }
+
+    let match: RegExpMatchArray;
+    if (req.method == 'DELETE' && (match = url.pathname.match(/^\/auth\/v1\/token\/([^/]+)$/))) {
+      const revoked = this.tokens.delete(decodeURIComponent(match[1]));
+      this.reply(res, revoked ? 204 : 404, undefined);
+      return;
+    }
+
+    // Smart system API requires a valid token & API key
+    const token = (req.headers.authorization ?? '').replace(/^Bearer /, '');
+    if (!this.tokens.has(token) || req.headers['x-api-key'] != this.clientId) {
+      this.reply(res, 401, { message: 'Unauthorized' });
+      return;
+    }
+
+    if (req.method == 'GET' && url.pathname == '/v1/locations') {
+      this.reply(res, 200, { data: [this.locationJson()] });
+    } else if (req.method == 'GET' && (match = url.pathname.match(/^\/v1\/locations\/([^/]+)$/))) {
+      if (match[1] != this.locationId) {
+        this.reply(res, 404, { errors: [{ title: 'Location not found' }] });
+        return;
+      }
+      this.reply(res, 200, this.locationDetailJson());
+    } else if (req.method == 'POST' && url.pathname == '/v1/websocket') {
+      const path = `/ws/${crypto.randomUUID()}`;
+      this.webSocketPaths.add(path);
+      this.reply(res, 201, {
+        data: { id: crypto.randomUUID(), type: 'WEBSOCKET', attributes: { validity: 60, url: `ws://127.0.0.1:${this.port}${path}` } }
+      });
+    } else if (req.method == 'PUT' && (match = url.pathname.match(/^\/v1\/command\/([^/]+)$/))) {
+      this.onCommand(decodeURIComponent(match[1]), body, res);
+    } else {
+      this.reply(res, 404, { errors: [{ title: 'Not found' }] });
+    }
+  }
+
+  private onCommand(serviceId: string, body: string, res: ServerResponse): void {
+    let json: { data?: { type?: string; attributes?: { command?: string; [name: string]: unknown } } };
+    try {
+      json = JSON.parse(body);
+    } catch (e) {
+      this.reply(res, 400, { errors: [{ title: 'Invalid JSON body' }] });
+      return;
+    }
+
+    const device = this.devices.find((x) => {
+      return x.services.some((y) => {
+        return y.id == serviceId && y.type == 'MOWER';
+      });
+    });
+    const type = json?.data?.type;
+    const attributes = json?.data?.attributes ?? {};
+    if (!device) {
+      this.reply(res, 404, { errors: [{ title: `Unknown service ${serviceId}` }] });
+      return;
+    }
+    if (type != 'MOWER_CONTROL' || !Object.values<string>(GardenaSimulatorMowerCommand).includes(attributes.command)) {
+      this.reply(res, 400, { errors: [{ title: 'Invalid command' }] });
+      return;
+    }
+
+    // Log command
+    const command: GardenaSimulatorCommand = { serviceId, type, command: attributes.command, attributes, ts: new Date() };
+    this.commands.push(command);
+    this.emit('command', command);
+    this.reply(res, 202, undefined);
+
+    // Simulate the mower reacting to the command
+    switch (attributes.command) {
+      case GardenaSimulatorMowerCommand.Start:
+        this.scheduleTransitions(device.id, [{ activity: GardenaMowerActivity.Leaving }, { activity: GardenaMowerActivity.CuttingManual }]);
+        break;
+      case GardenaSimulatorMowerCommand.ResumeSchedule:
+        this.scheduleTransitions(device.id, [{ activity: GardenaMowerActivity.Leaving }, { activity: GardenaMowerActivity.Cutting }]);
+        break;
+      case GardenaSimulatorMowerCommand.ParkUntilNextTask:
+        this.scheduleTransitions(device.id, [
+          { activity: GardenaMowerActivity.Searching },
+          { activity: GardenaMowerActivity.Charging },
+          { activity: GardenaMowerActivity.Parked }
+        ]);
+        break;
+      case GardenaSimulatorMowerCommand.ParkUntilFurtherNotice:
+        this.scheduleTransitions(device.id, [{ activity: GardenaMowerActivity.Searching }, { activity: GardenaMowerActivity.ParkedManual }]);
+        break;
+    }
+  }
+
+  private onUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): void {
+    const path = new URL(req.url, `http://127.0.0.1:${this.port}`).pathname;
+    if (!this.webSocketPaths.has(path)) {
+      socket.destroy();
+      return;
+    }
+
+    this.wss.handleUpgrade(req, socket, head, (ws) => {
+      this.wss.emit('connection', ws, req);
+      this.emit('websocket', ws);
+    });
+  }
+
+  private locationJson(): { [key: string]: unknown } {
+    return { id: this.locationId, type: 'LOCATION', attributes: { name: this.locationName } };
+  }
+
+  private locationDetailJson(): { [key: string]: unknown } {
+    const included: { [key: string]: unknown }[] = [];
+    for (const device of this.devices) {
+      included.push({
+        id: device.id,
+        type: 'DEVICE',
+        relationships: {
+          location: { data: { id: this.locationId, type: 'LOCATION' } },
+          services: {
+            data: device.services.map((x) => {
+              return { id: x.id, type: x.type };
+            })
+          }
+        }
+      });
+      for (const service of device.services) {
+        included.push({ ...service, relationships: { device: { data: { id: device.id, type: 'DEVICE' } } } });
+      }
+    }
+
+    return {
+      data: {
+        ...this.locationJson(),
+        relationships: {
+          devices: {
+            data: this.devices.map((x) => {
+              return { id: x.id, type: 'DEVICE' };
+            })
+          }
+        }
+      },
+      included
+    };
+  }
+
+  private async readBody(req: IncomingMessage): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk);
+    }
+    return Buffer.concat(chunks).toString();
+  }
+
+  private reply(res: ServerResponse, status: number, json: unknown): void {
+    if (json === undefined) {
+      res.writeHead(status).end();
+      return;
+    }
+
+    res.writeHead(status, { 'Content-Type': 'application/vnd.api+json' }).end(JSON.stringify(json));
+  }
+}